@@ -0,0 +1,184 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { AnnouncerSettings, DuckingOptions } from '../types';
+import { PREBUILT_VOICES } from '../utils/RadioAnnouncer';
+
+type NumericKey = 'delay' | 'repeatMinutes' | 'maxLength';
+
+interface SliderSpec {
+  key: NumericKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}
+
+const SLIDERS: SliderSpec[] = [
+  { key: 'delay', label: 'DELAY', min: 0, max: 60, step: 1, unit: 's' },
+  { key: 'repeatMinutes', label: 'REPEAT', min: 0, max: 30, step: 1, unit: 'm' },
+  { key: 'maxLength', label: 'MAX LENGTH', min: 2, max: 30, step: 1, unit: 's' },
+];
+
+interface DuckingSliderSpec {
+  key: keyof DuckingOptions;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: string;
+}
+
+const DUCKING_SLIDERS: DuckingSliderSpec[] = [
+  { key: 'amount', label: 'DUCK', min: 0, max: 24, step: 1, unit: 'dB' },
+  { key: 'attack', label: 'ATTACK', min: 0.01, max: 1, step: 0.01, unit: 's' },
+  { key: 'release', label: 'RELEASE', min: 0.05, max: 3, step: 0.05, unit: 's' },
+];
+
+/** Voice, persona and cadence settings for the radio DJ. */
+@customElement('announcer-panel')
+export class AnnouncerPanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #33ff33;
+    }
+    .row {
+      display: grid;
+      grid-template-columns: 90px 1fr 48px;
+      align-items: center;
+      gap: 6px;
+    }
+    .label {
+      color: #ccc;
+      font-family: 'Helvetica', 'Arial', sans-serif;
+      font-size: 10px;
+      font-weight: bold;
+      letter-spacing: 1px;
+    }
+    input[type='range'] {
+      accent-color: #33ff33;
+    }
+    select, textarea {
+      font: inherit;
+      padding: 2px 4px;
+      background: #000;
+      color: #33ff33;
+      border: 1px solid #555;
+      border-radius: 2px;
+      outline: none;
+    }
+    textarea {
+      height: 110px;
+      resize: vertical;
+    }
+    .value {
+      text-align: right;
+    }
+    button {
+      font: inherit;
+      padding: 2px 6px;
+      color: #33ff33;
+      background: #000;
+      border: 1px solid #555;
+      border-radius: 2px;
+      cursor: pointer;
+      &.off {
+        color: #555;
+      }
+    }
+    .hint {
+      color: #ccc;
+      font-family: 'Helvetica', 'Arial', sans-serif;
+      font-size: 9px;
+    }
+  `;
+
+  @property({ type: Object }) settings: AnnouncerSettings | null = null;
+
+  private updateSettings(changes: Partial<AnnouncerSettings>) {
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<Partial<AnnouncerSettings>>('settings-changed', { detail: changes }),
+    );
+  }
+
+  private handlePersonaChange(e: Event) {
+    const persona = (e.target as HTMLTextAreaElement).value.trim();
+    if (persona) this.updateSettings({ persona });
+  }
+
+  private renderSlider({ key, label, min, max, step, unit }: SliderSpec, settings: AnnouncerSettings) {
+    const value = settings[key];
+    return html`<div class="row">
+      <span class="label">${label}</span>
+      <input
+        type="range"
+        min=${min}
+        max=${max}
+        step=${step}
+        .value=${String(value)}
+        @change=${(e: Event) => this.updateSettings({ [key]: parseFloat((e.target as HTMLInputElement).value) })} />
+      <span class="value">${key === 'repeatMinutes' && value === 0 ? 'OFF' : `${value}${unit}`}</span>
+    </div>`;
+  }
+
+  private renderDuckingSlider({ key, label, min, max, step, unit }: DuckingSliderSpec, ducking: DuckingOptions) {
+    const value = ducking[key];
+    return html`<div class="row">
+      <span class="label">${label}</span>
+      <input
+        type="range"
+        min=${min}
+        max=${max}
+        step=${step}
+        .value=${String(value)}
+        @change=${(e: Event) => this.updateSettings({
+          ducking: { ...ducking, [key]: parseFloat((e.target as HTMLInputElement).value) },
+        })} />
+      <span class="value">${step < 1 ? value.toFixed(2) : value}${unit}</span>
+    </div>`;
+  }
+
+  render() {
+    const settings = this.settings;
+    if (!settings) return '';
+    return html`
+      <div class="row">
+        <span class="label">DJ</span>
+        <button
+          class=${settings.enabled ? '' : 'off'}
+          @click=${() => this.updateSettings({ enabled: !settings.enabled })}>
+          ${settings.enabled ? 'ON AIR' : 'OFF AIR'}
+        </button>
+      </div>
+      <div class="row">
+        <span class="label">VOICE</span>
+        <select @change=${(e: Event) => this.updateSettings({ voice: (e.target as HTMLSelectElement).value })}>
+          ${PREBUILT_VOICES.map((voice) => html`<option value=${voice} ?selected=${voice === settings.voice}>
+              ${voice}
+            </option>`)}
+        </select>
+      </div>
+      ${SLIDERS.map((spec) => this.renderSlider(spec, settings))}
+      ${DUCKING_SLIDERS.map((spec) => this.renderDuckingSlider(spec, settings.ducking))}
+      <span class="label">PERSONA</span>
+      <textarea spellcheck="false" .value=${settings.persona} @change=${this.handlePersonaChange}></textarea>
+      <span class="hint">{station} and {frequency} are filled in for each announcement.</span>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'announcer-panel': AnnouncerPanel;
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { AlarmSettings, ClockSettings } from '../types';
+import { formatCountdown, SLEEP_OPTIONS } from '../utils/ClockRadio';
+
+/**
+ * Sleep timer and alarm clock settings. Dispatches `sleep-set` with the
+ * minutes to sleep in (null to cancel) and `settings-changed` with partial
+ * ClockSettings.
+ */
+@customElement('clock-panel')
+export class ClockPanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #33ff33;
+    }
+    .row {
+      display: grid;
+      grid-template-columns: 90px 1fr 48px;
+      align-items: center;
+      gap: 6px;
+    }
+    .label {
+      color: #ccc;
+      font-family: 'Helvetica', 'Arial', sans-serif;
+      font-size: 10px;
+      font-weight: bold;
+      letter-spacing: 1px;
+    }
+    .buttons {
+      display: flex;
+      gap: 4px;
+    }
+    input[type='range'] {
+      accent-color: #33ff33;
+    }
+    input[type='time'], select {
+      font: inherit;
+      padding: 2px 4px;
+      background: #000;
+      color: #33ff33;
+      border: 1px solid #555;
+      border-radius: 2px;
+      outline: none;
+      color-scheme: dark;
+    }
+    .value {
+      text-align: right;
+    }
+    button {
+      font: inherit;
+      padding: 2px 6px;
+      color: #33ff33;
+      background: #000;
+      border: 1px solid #555;
+      border-radius: 2px;
+      cursor: pointer;
+      &.off {
+        color: #555;
+      }
+    }
+  `;
+
+  @property({ type: Object }) settings: ClockSettings | null = null;
+  /** Seconds left on the sleep timer, or null when it isn't running. */
+  @property({ type: Number }) sleepRemaining: number | null = null;
+  /** Station texts on the dial, for the alarm's station picker. */
+  @property({ type: Array }) stations: string[] = [];
+
+  private setSleep(minutes: number | null) {
+    (this as LitElement).dispatchEvent(new CustomEvent<number | null>('sleep-set', { detail: minutes }));
+  }
+
+  private updateSettings(changes: Partial<ClockSettings>) {
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<Partial<ClockSettings>>('settings-changed', { detail: changes }),
+    );
+  }
+
+  private updateAlarm(changes: Partial<AlarmSettings>) {
+    if (!this.settings) return;
+    this.updateSettings({ alarm: { ...this.settings.alarm, ...changes } });
+  }
+
+  private renderAlarm(alarm: AlarmSettings) {
+    return html`
+      <div class="row">
+        <span class="label">ALARM</span>
+        <input
+          type="time"
+          .value=${alarm.time}
+          @change=${(e: Event) => {
+            const time = (e.target as HTMLInputElement).value;
+            if (time) this.updateAlarm({ time });
+          }} />
+        <button
+          class=${alarm.enabled ? '' : 'off'}
+          @click=${() => this.updateAlarm({ enabled: !alarm.enabled })}>${alarm.enabled ? 'ON' : 'OFF'}</button>
+      </div>
+      <div class="row">
+        <span class="label">WAKE TO</span>
+        <select @change=${(e: Event) => this.updateAlarm({ station: (e.target as HTMLSelectElement).value })}>
+          <option value="" ?selected=${alarm.station === ''}>Current station</option>
+          ${this.stations.map((station) => html`<option value=${station} ?selected=${station === alarm.station}>
+              ${station}
+            </option>`)}
+        </select>
+      </div>
+      <div class="row">
+        <span class="label">FADE IN</span>
+        <input
+          type="range"
+          min="0"
+          max="300"
+          step="10"
+          .value=${String(alarm.fadeIn)}
+          @change=${(e: Event) => this.updateAlarm({ fadeIn: parseInt((e.target as HTMLInputElement).value, 10) })} />
+        <span class="value">${alarm.fadeIn}s</span>
+      </div>
+    `;
+  }
+
+  render() {
+    const settings = this.settings;
+    if (!settings) return '';
+    return html`
+      <div class="row">
+        <span class="label">SLEEP</span>
+        <div class="buttons">
+          ${SLEEP_OPTIONS.map((minutes) => html`<button @click=${() => this.setSleep(minutes)}>${minutes}m</button>`)}
+          <button ?disabled=${this.sleepRemaining === null} @click=${() => this.setSleep(null)}>OFF</button>
+        </div>
+        <span class="value">${this.sleepRemaining === null ? '--' : formatCountdown(this.sleepRemaining)}</span>
+      </div>
+      <div class="row">
+        <span class="label">SLEEP FADE</span>
+        <input
+          type="range"
+          min="5"
+          max="300"
+          step="5"
+          .value=${String(settings.sleepFade)}
+          @change=${(e: Event) => this.updateSettings({ sleepFade: parseInt((e.target as HTMLInputElement).value, 10) })} />
+        <span class="value">${settings.sleepFade}s</span>
+      </div>
+      ${this.renderAlarm(settings.alarm)}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'clock-panel': ClockPanel;
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { MidiDispatcher } from '../utils/MidiDispatcher';
+import type { MidiMapper } from '../utils/MidiMapper';
+import type { MidiAction, MidiBinding } from '../types';
+
+const ACTION_LABELS: Record<MidiAction, string> = {
+  'tune': 'TUNING',
+  'play-pause': 'PLAY/PAUSE',
+  'volume': 'VOLUME',
+};
+
+/** MIDI input picker and learnable control mapping for the boombox. */
+@customElement('midi-panel')
+export class MidiPanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #33ff33;
+    }
+    select {
+      font: inherit;
+      padding: 4px;
+      background: #000;
+      color: #33ff33;
+      border: 1px solid #555;
+      border-radius: 2px;
+      outline: none;
+      cursor: pointer;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    .label {
+      flex: 1;
+      color: #ccc;
+      font-family: 'Helvetica', 'Arial', sans-serif;
+      font-size: 10px;
+      font-weight: bold;
+      letter-spacing: 1px;
+    }
+    button {
+      font: inherit;
+      min-width: 28px;
+      padding: 2px 6px;
+      color: #33ff33;
+      background: #000;
+      border: 1px solid #555;
+      border-radius: 2px;
+      cursor: pointer;
+      &.learn-mode {
+        color: orange;
+        border-color: orange;
+      }
+    }
+  `;
+
+  @property({ type: Object }) midiDispatcher: MidiDispatcher | null = null;
+  @property({ type: Object }) midiMapper: MidiMapper | null = null;
+  @property({ type: Array }) inputIds: string[] = [];
+
+  constructor() {
+    super();
+    this.handleMappingChanged = this.handleMappingChanged.bind(this);
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.midiMapper?.addEventListener('mapping-changed', this.handleMappingChanged);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiMapper?.removeEventListener('mapping-changed', this.handleMappingChanged);
+  }
+
+  private handleMappingChanged() {
+    (this as LitElement).requestUpdate();
+  }
+
+  private handleInputChange(e: Event) {
+    const inputId = (e.target as HTMLSelectElement).value;
+    if (this.midiDispatcher) this.midiDispatcher.activeMidiInputId = inputId;
+    if (this.midiMapper) this.midiMapper.inputId = inputId;
+  }
+
+  private toggleMode(binding: MidiBinding) {
+    this.midiMapper?.setMode('tune', binding.mode === 'absolute' ? 'relative' : 'absolute');
+  }
+
+  private describeBinding(binding: MidiBinding | undefined) {
+    if (!binding) return '---';
+    const name = binding.type === 'cc' ? 'CC' : 'NOTE';
+    return `${name}:${binding.number} CH${binding.channel + 1}`;
+  }
+
+  private renderAction(action: MidiAction) {
+    const binding = this.midiMapper?.getBinding(action);
+    const learning = this.midiMapper?.learning === action;
+    return html`<div class="row">
+      <span class="label">${ACTION_LABELS[action]}</span>
+      ${action === 'tune' && binding?.type === 'cc' ? html`
+        <button @click=${() => this.toggleMode(binding)}>
+          ${binding.mode === 'absolute' ? 'ABS' : 'REL'}
+        </button>` : ''}
+      <button
+        class=${classMap({ 'learn-mode': learning })}
+        @click=${() => this.midiMapper?.toggleLearnMode(action)}>
+        ${learning ? 'Learn' : this.describeBinding(binding)}
+      </button>
+      <button
+        ?disabled=${!binding}
+        @click=${() => this.midiMapper?.clearBinding(action)}>✕</button>
+    </div>`;
+  }
+
+  render() {
+    const activeId = this.midiDispatcher?.activeMidiInputId ?? '';
+    return html`
+      <select @change=${this.handleInputChange}>
+        ${this.inputIds.length > 0
+          ? this.inputIds.map((id) => html`<option value=${id} ?selected=${id === activeId}>
+              ${this.midiDispatcher?.getDeviceName(id) ?? id}
+            </option>`)
+          : html`<option value="">No devices found</option>`}
+      </select>
+      ${(['tune', 'play-pause', 'volume'] as MidiAction[]).map((action) => this.renderAction(action))}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-panel': MidiPanel;
+  }
+}
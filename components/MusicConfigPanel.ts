@@ -0,0 +1,274 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { Scale } from '@google/genai';
+
+import type { CrossfadeCurve, CrossfadeSettings, MusicConfig, ScanSettings, StaticSettings } from '../types';
+import { DEFAULT_CROSSFADE } from '../utils/Crossfader';
+import { DEFAULT_SCAN } from '../utils/Scanner';
+
+type NumericKey = 'bpm' | 'density' | 'brightness' | 'guidance' | 'temperature';
+
+interface SliderSpec {
+  key: NumericKey;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  /** Position shown while the model default is in use. */
+  fallback: number;
+  /** Changing this value restarts the model's musical context. */
+  resets?: boolean;
+}
+
+const SLIDERS: SliderSpec[] = [
+  { key: 'bpm', label: 'BPM', min: 60, max: 200, step: 1, fallback: 120, resets: true },
+  { key: 'density', label: 'DENSITY', min: 0, max: 1, step: 0.01, fallback: 0.5 },
+  { key: 'brightness', label: 'BRIGHTNESS', min: 0, max: 1, step: 0.01, fallback: 0.5 },
+  { key: 'guidance', label: 'GUIDANCE', min: 0, max: 6, step: 0.1, fallback: 4 },
+  { key: 'temperature', label: 'TEMPERATURE', min: 0, max: 3, step: 0.1, fallback: 1.1 },
+];
+
+/** Turns e.g. `D_FLAT_MAJOR_B_FLAT_MINOR` into `Db maj / Bb min`. */
+function scaleLabel(scale: Scale) {
+  const [major, minor] = scale.replace(/_MINOR$/, '').split('_MAJOR_');
+  const note = (name: string) => name.replace('_FLAT', 'b');
+  return `${note(major)} maj / ${note(minor)} min`;
+}
+
+const CURVE_LABELS: Record<CrossfadeCurve, string> = {
+  'linear': 'Linear',
+  'equal-power': 'Equal power',
+};
+
+/** Sliders for the Lyria music generation config, plus how tuning fades between stations. */
+@customElement('music-config-panel')
+export class MusicConfigPanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #33ff33;
+    }
+    .row {
+      display: grid;
+      grid-template-columns: 90px 1fr 40px 40px;
+      align-items: center;
+      gap: 6px;
+    }
+    .label {
+      color: #ccc;
+      font-family: 'Helvetica', 'Arial', sans-serif;
+      font-size: 10px;
+      font-weight: bold;
+      letter-spacing: 1px;
+    }
+    .label.resets::after {
+      content: ' ↻';
+      color: orange;
+    }
+    input[type='range'] {
+      accent-color: #33ff33;
+    }
+    input[type='number'], select {
+      font: inherit;
+      padding: 2px 4px;
+      background: #000;
+      color: #33ff33;
+      border: 1px solid #555;
+      border-radius: 2px;
+      outline: none;
+    }
+    .value {
+      text-align: right;
+    }
+    .value.auto {
+      opacity: 0.4;
+    }
+    button {
+      font: inherit;
+      padding: 2px 4px;
+      color: #555;
+      background: #000;
+      border: 1px solid #555;
+      border-radius: 2px;
+      cursor: pointer;
+    }
+    button.active {
+      color: #33ff33;
+      border-color: #33ff33;
+    }
+    .hint {
+      color: #ccc;
+      font-family: 'Helvetica', 'Arial', sans-serif;
+      font-size: 9px;
+    }
+  `;
+
+  @property({ type: Object }) config: MusicConfig = {};
+  @property({ type: Object }) crossfade: CrossfadeSettings = DEFAULT_CROSSFADE;
+  @property({ type: Object }) scan: ScanSettings = DEFAULT_SCAN;
+  @property({ type: Object }) staticSettings: StaticSettings | null = null;
+
+  private updateConfig(changes: Partial<MusicConfig>) {
+    const config = { ...this.config, ...changes };
+    // Drop cleared fields so the model default applies.
+    for (const key of Object.keys(config) as (keyof MusicConfig)[]) {
+      if (config[key] === undefined) delete config[key];
+    }
+    this.config = config;
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<MusicConfig>('config-changed', { detail: config }),
+    );
+  }
+
+  private updateCrossfade(changes: Partial<CrossfadeSettings>) {
+    this.crossfade = { ...this.crossfade, ...changes };
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<CrossfadeSettings>('crossfade-changed', { detail: this.crossfade }),
+    );
+  }
+
+  private updateScan(changes: Partial<ScanSettings>) {
+    this.scan = { ...this.scan, ...changes };
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<ScanSettings>('scan-changed', { detail: this.scan }),
+    );
+  }
+
+  private updateStatic(changes: Partial<StaticSettings>) {
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<Partial<StaticSettings>>('static-settings-changed', { detail: changes }),
+    );
+  }
+
+  private renderStatic(settings: StaticSettings) {
+    return html`<div class="row">
+      <span class="label">STATIC</span>
+      <input
+        type="range"
+        min="0"
+        max="1"
+        step="0.05"
+        ?disabled=${!settings.enabled}
+        .value=${String(settings.level)}
+        @change=${(e: Event) => this.updateStatic({ level: parseFloat((e.target as HTMLInputElement).value) })} />
+      <span class=${classMap({ value: true, auto: !settings.enabled })}>${settings.level.toFixed(2)}</span>
+      <button
+        class=${settings.enabled ? 'active' : ''}
+        @click=${() => this.updateStatic({ enabled: !settings.enabled })}>${settings.enabled ? 'ON' : 'OFF'}</button>
+    </div>`;
+  }
+
+  private handleSeedChange(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const value = input.value.trim();
+    const seed = value === '' ? undefined : Number(value);
+    if (seed !== undefined && !Number.isSafeInteger(seed)) {
+      // Not a whole number; put back the seed in use.
+      input.value = this.config.seed?.toString() ?? '';
+      return;
+    }
+    this.updateConfig({ seed });
+  }
+
+  private handleScaleChange(e: Event) {
+    const value = (e.target as HTMLSelectElement).value;
+    this.updateConfig({ scale: value === '' ? undefined : value as Scale });
+  }
+
+  private renderSlider({ key, label, min, max, step, fallback, resets }: SliderSpec) {
+    const value = this.config[key];
+    const isAuto = value === undefined;
+    return html`<div class="row">
+      <span class=${classMap({ label: true, resets: !!resets })}>${label}</span>
+      <input
+        type="range"
+        min=${min}
+        max=${max}
+        step=${step}
+        .value=${String(value ?? fallback)}
+        @change=${(e: Event) => this.updateConfig({ [key]: parseFloat((e.target as HTMLInputElement).value) })} />
+      <span class=${classMap({ value: true, auto: isAuto })}>
+        ${(value ?? fallback).toFixed(step < 1 ? 2 : 0)}
+      </span>
+      <button
+        class=${isAuto ? 'active' : ''}
+        @click=${() => this.updateConfig({ [key]: undefined })}>AUTO</button>
+    </div>`;
+  }
+
+  render() {
+    const scales = Object.values(Scale).filter((s) => s !== Scale.SCALE_UNSPECIFIED);
+    return html`
+      ${SLIDERS.map((spec) => this.renderSlider(spec))}
+      <div class="row">
+        <span class="label resets">SCALE</span>
+        <select @change=${this.handleScaleChange}>
+          <option value="" ?selected=${!this.config.scale}>Auto</option>
+          ${scales.map((scale) => html`<option value=${scale} ?selected=${scale === this.config.scale}>
+            ${scaleLabel(scale)}
+          </option>`)}
+        </select>
+      </div>
+      <div class="row">
+        <span class="label">SEED</span>
+        <input
+          type="number"
+          placeholder="random"
+          .value=${this.config.seed?.toString() ?? ''}
+          @change=${this.handleSeedChange} />
+      </div>
+      <div class="hint">↻ restarts the groove when changed</div>
+      <div class="row">
+        <span class="label">TUNING FADE</span>
+        <input
+          type="range"
+          min="0"
+          max="5000"
+          step="100"
+          .value=${String(this.crossfade.duration)}
+          @change=${(e: Event) => this.updateCrossfade({ duration: parseInt((e.target as HTMLInputElement).value, 10) })} />
+        <span class="value">${(this.crossfade.duration / 1000).toFixed(1)}s</span>
+      </div>
+      <div class="row">
+        <span class="label">FADE CURVE</span>
+        <select @change=${(e: Event) => this.updateCrossfade({ curve: (e.target as HTMLSelectElement).value as CrossfadeCurve })}>
+          ${(Object.keys(CURVE_LABELS) as CrossfadeCurve[]).map((curve) => html`<option
+            value=${curve}
+            ?selected=${curve === this.crossfade.curve}>${CURVE_LABELS[curve]}</option>`)}
+        </select>
+      </div>
+      <div class="row">
+        <span class="label">SCAN DWELL</span>
+        <input
+          type="range"
+          min="2"
+          max="30"
+          step="1"
+          .value=${String(this.scan.dwell)}
+          @change=${(e: Event) => this.updateScan({ dwell: parseInt((e.target as HTMLInputElement).value, 10) })} />
+        <span class="value">${this.scan.dwell}s</span>
+        <button
+          class=${this.scan.announce ? 'active' : ''}
+          title="Announce each scanned station"
+          aria-pressed=${this.scan.announce}
+          @click=${() => this.updateScan({ announce: !this.scan.announce })}>DJ</button>
+      </div>
+      ${this.staticSettings ? this.renderStatic(this.staticSettings) : ''}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'music-config-panel': MusicConfigPanel;
+  }
+}
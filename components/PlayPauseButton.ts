@@ -37,6 +37,10 @@ export class PlayPauseButton extends LitElement {
       border-radius: 50%;
       cursor: pointer;
     }
+    .hitbox:focus-visible {
+      outline: 2px solid #33ff33;
+      outline-offset: 2px;
+    }
     .loader {
       stroke: #ffffff;
       stroke-width: 3;
@@ -45,6 +49,11 @@ export class PlayPauseButton extends LitElement {
       transform-origin: center;
       transform-box: fill-box;
     }
+    .loader.reconnecting {
+      stroke: orange;
+      stroke-dasharray: 4 6;
+      animation-duration: 2s;
+    }
     @keyframes spin {
       from { transform: rotate(0deg); }
       to { transform: rotate(359deg); }
@@ -164,23 +173,45 @@ export class PlayPauseButton extends LitElement {
   }
 
   private renderLoading() {
-    return svg`<path shape-rendering="crispEdges" class="loader" d="M70,74.2L70,74.2c-10.7,0-19.5-8.7-19.5-19.5l0,0c0-10.7,8.7-19.5,19.5-19.5
+    const reconnecting = this.playbackState === 'reconnecting';
+    return svg`<path shape-rendering="crispEdges" class="loader ${reconnecting ? 'reconnecting' : ''}" d="M70,74.2L70,74.2c-10.7,0-19.5-8.7-19.5-19.5l0,0c0-10.7,8.7-19.5,19.5-19.5
             l0,0c10.7,0,19.5,8.7,19.5,19.5l0,0"/>`;
   }
 
   private renderIcon() {
     if (this.playbackState === 'playing') {
       return this.renderPause();
-    } else if (this.playbackState === 'loading') {
+    } else if (this.playbackState === 'loading' || this.playbackState === 'reconnecting') {
       return this.renderLoading();
     } else {
       return this.renderPlay();
     }
   }
 
+  private get label() {
+    switch (this.playbackState) {
+      case 'playing': return 'Pause';
+      case 'loading': return 'Loading, press to stop';
+      case 'reconnecting': return 'Reconnecting, press to stop';
+      default: return 'Play';
+    }
+  }
+
+  private handleKeyDown(e: KeyboardEvent) {
+    if (e.key !== 'Enter' && e.key !== ' ') return;
+    e.preventDefault();
+    // Listeners are on the host, as for a pointer click.
+    (this as unknown as HTMLElement).click();
+  }
+
   // FIX: Removed override keyword to fix TS error.
   render() {
-    return html`${this.renderSvg()}<div class="hitbox"></div>`;
+    return html`${this.renderSvg()}<div
+      class="hitbox"
+      role="button"
+      tabindex="0"
+      aria-label=${this.label}
+      @keydown=${this.handleKeyDown}></div>`;
   }
 }
 
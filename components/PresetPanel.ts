@@ -0,0 +1,192 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { PresetStore } from '../utils/PresetStore';
+import type { Station, StationList } from '../types';
+
+/** Browser for saved station lists, with JSON import and export. */
+@customElement('preset-panel')
+export class PresetPanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #33ff33;
+    }
+    ul {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      max-height: 180px;
+      overflow-y: auto;
+      border: 1px solid #555;
+      background: #000;
+    }
+    li {
+      display: flex;
+      justify-content: space-between;
+      padding: 4px 6px;
+      cursor: pointer;
+      &:hover {
+        background: #1a1a1a;
+      }
+      &.active {
+        color: #000;
+        background: #33ff33;
+      }
+    }
+    .count {
+      opacity: 0.6;
+    }
+    .row {
+      display: flex;
+      gap: 6px;
+    }
+    input[type='text'] {
+      flex: 1;
+      min-width: 0;
+      font: inherit;
+      padding: 2px 4px;
+      background: #000;
+      color: #33ff33;
+      border: 1px solid #555;
+      border-radius: 2px;
+      outline: none;
+    }
+    input[type='file'] {
+      display: none;
+    }
+    button {
+      font: inherit;
+      padding: 2px 6px;
+      color: #33ff33;
+      background: #000;
+      border: 1px solid #555;
+      border-radius: 2px;
+      cursor: pointer;
+    }
+  `;
+
+  @property({ type: Object }) presetStore: PresetStore | null = null;
+  /** The stations currently on the dial, used by "save as". */
+  @property({ type: Array }) stations: Station[] = [];
+
+  @query('input[type="file"]') private fileInput!: HTMLInputElement;
+  @query('input[type="text"]') private nameInput!: HTMLInputElement;
+
+  constructor() {
+    super();
+    this.handlePresetsChanged = this.handlePresetsChanged.bind(this);
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.presetStore?.addEventListener('presets-changed', this.handlePresetsChanged);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.presetStore?.removeEventListener('presets-changed', this.handlePresetsChanged);
+  }
+
+  private handlePresetsChanged() {
+    (this as LitElement).requestUpdate();
+  }
+
+  private dispatchError(message: string) {
+    (this as LitElement).dispatchEvent(new CustomEvent('error', { detail: message }));
+  }
+
+  private selectList(list: StationList) {
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<StationList>('preset-selected', { detail: list }),
+    );
+  }
+
+  private saveAs() {
+    const name = this.nameInput.value.trim();
+    if (!name) {
+      this.dispatchError('Give the preset a name first.');
+      return;
+    }
+    const list: StationList = { name, stations: this.stations };
+    this.presetStore?.put(list);
+    this.nameInput.value = '';
+    this.selectList(list);
+  }
+
+  private removeActive() {
+    if (!this.presetStore) return;
+    try {
+      this.presetStore.remove(this.presetStore.activeList.name);
+      this.selectList(this.presetStore.activeList);
+    } catch (e) {
+      this.dispatchError(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  private exportActive() {
+    if (!this.presetStore) return;
+    const { name } = this.presetStore.activeList;
+    const json = this.presetStore.exportList(name);
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${name.replace(/[^\w-]+/g, '_')}.stations.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  private async importFile() {
+    const file = this.fileInput.files?.[0];
+    this.fileInput.value = '';
+    if (!file || !this.presetStore) return;
+    try {
+      const list = this.presetStore.importList(await file.text());
+      this.selectList(list);
+    } catch (e) {
+      this.dispatchError(`Could not import ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  render() {
+    const lists = this.presetStore?.lists ?? [];
+    const activeName = this.presetStore?.activeList.name;
+    return html`
+      <ul>
+        ${lists.map((list) => html`<li
+          class=${classMap({ active: list.name === activeName })}
+          @click=${() => this.selectList(list)}>
+          <span>${list.name}</span>
+          <span class="count">${list.stations.length} ST</span>
+        </li>`)}
+      </ul>
+      <div class="row">
+        <input type="text" placeholder="New preset name" @keydown=${(e: KeyboardEvent) => {
+          if (e.key === 'Enter') this.saveAs();
+        }} />
+        <button @click=${this.saveAs}>SAVE AS</button>
+      </div>
+      <div class="row">
+        <button @click=${() => this.fileInput.click()}>IMPORT</button>
+        <button @click=${this.exportActive}>EXPORT</button>
+        <button @click=${this.removeActive}>DELETE</button>
+      </div>
+      <input type="file" accept=".json,application/json" @change=${this.importFile} />
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'preset-panel': PresetPanel;
+  }
+}
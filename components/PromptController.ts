@@ -93,6 +93,7 @@ export class PromptController extends LitElement {
   @property({ type: String }) text = '';
   @property({ type: Number }) weight = 0;
   @property({ type: String }) color = '';
+  @property({ type: Number }) frequency = 0;
   @property({ type: Boolean, reflect: true }) filtered = false;
 
   @property({ type: Number }) cc = 0;
@@ -161,6 +162,7 @@ export class PromptController extends LitElement {
           weight: this.weight,
           cc: this.cc,
           color: this.color,
+          frequency: this.frequency,
         },
       }),
     );
@@ -7,8 +7,58 @@ import { customElement, property, state } from 'lit/decorators.js';
 import { styleMap } from 'lit/directives/style-map.js';
 import { GoogleGenAI, Modality } from '@google/genai';
 
+import './AnnouncerPanel';
+import './ClockPanel';
+import './MidiPanel';
+import './MusicConfigPanel';
 import './PlayPauseButton';
-import type { PlaybackState, Prompt } from '../types';
+import './PresetPanel';
+import './PromptController';
+import './ShortcutOverlay';
+import './SpectrumBars';
+import './StationEditor';
+import './ToneKnob';
+import './VuMeter';
+import type { StationEdit, StationMove } from './StationEditor';
+import type { AnnouncerSettings, BufferHealth, ChunkStats, ClockCountdown, ClockSettings, CrossfadeSettings, MasterSettings, MusicConfig, PlaybackState, Prompt, RecordingFormat, RecordingOptions, ScanSettings, ShortcutAction, SpectrumFrame, StaticSettings, StationList, StereoMeter } from '../types';
+import { formatCountdown } from '../utils/ClockRadio';
+import { crossfadeGains, Crossfader, DEFAULT_CROSSFADE, type Weights } from '../utils/Crossfader';
+import { MidiDispatcher } from '../utils/MidiDispatcher';
+import { MidiMapper } from '../utils/MidiMapper';
+import { DIAL_STEP, promptsFromStations, stationsFromPrompts, type PresetStore } from '../utils/PresetStore';
+import { DEFAULT_SCAN, findClearStation, Scanner } from '../utils/Scanner';
+import { ShortcutMap } from '../utils/ShortcutMap';
+import { loadJson, saveJson } from '../utils/storage';
+
+const CROSSFADE_STORAGE_KEY = 'boombox-crossfade';
+const SCAN_STORAGE_KEY = 'boombox-scan';
+
+/** Fraction of the gap between stations, on either side of each, where the knob holds a clean station. */
+const DETENT_WIDTH = 0.15;
+
+/** Least static heard while the knob is held, even right on a station. */
+const DRAG_STATIC = 0.15;
+/** Static heard on a station whose prompt the model filtered. */
+const FILTERED_STATIC = 0.6;
+
+/** Stations skipped by PageUp/PageDown on the tuning knob. */
+const PAGE_STEP = 4;
+
+/** Volume change per press of the volume shortcuts. */
+const VOLUME_STEP = 0.05;
+
+const PLAYBACK_ANNOUNCEMENTS: Record<PlaybackState, string> = {
+  playing: 'Playing',
+  paused: 'Paused',
+  stopped: 'Stopped',
+  loading: 'Buffering',
+  reconnecting: 'Connection lost, reconnecting',
+};
+
+type PanelName = 'midi' | 'config' | 'presets' | 'stations' | 'announcer' | 'clock';
+
+/** Colors handed out to newly added stations. */
+const STATION_COLORS = ['#9900ff', '#5200ff', '#ff25f6', '#2af6de', '#ffdd28', '#3dffab', '#d8ff3e', '#d9b2ff'];
 
 /** A retro boombox radio interface. */
 @customElement('prompt-dj-midi')
@@ -19,6 +69,8 @@ export class PromptDjMidi extends LitElement {
       height: 100%;
       width: 100%;
       display: flex;
+      flex-direction: column;
+      gap: 20px;
       justify-content: center;
       align-items: center;
       background: radial-gradient(circle, #ffc0d5, #ff9ebc);
@@ -59,6 +111,7 @@ export class PromptDjMidi extends LitElement {
         gap: 10px;
       }
       .handle { display: none; }
+      vu-meter { display: none; }
     }
 
     /* --- Handle --- */
@@ -166,15 +219,31 @@ export class PromptDjMidi extends LitElement {
       overflow: hidden;
     }
     
-    .lcd-screen {
+    .display-row {
       width: 100%;
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+
+    .lcd-screen {
+      flex: 1;
+      min-width: 0;
+      position: relative;
       text-align: center;
       display: flex;
       flex-direction: column;
       gap: 4px;
     }
 
+    .lcd-screen spectrum-bars {
+      position: absolute;
+      inset: 0;
+      opacity: 0.25;
+    }
+
     .station-freq {
+      position: relative;
       color: #33ff33;
       font-family: 'Courier New', monospace;
       font-size: 14px;
@@ -183,6 +252,7 @@ export class PromptDjMidi extends LitElement {
     }
 
     .station-name {
+      position: relative;
       color: #33ff33;
       font-family: 'Courier New', monospace;
       font-size: 24px;
@@ -192,11 +262,76 @@ export class PromptDjMidi extends LitElement {
       white-space: nowrap;
     }
 
+    .station-name {
+      cursor: text;
+    }
+
+    .station-name-input {
+      position: relative;
+      width: 90%;
+      color: #33ff33;
+      background: transparent;
+      font-family: 'Courier New', monospace;
+      font-size: 24px;
+      font-weight: bold;
+      text-align: center;
+      text-transform: uppercase;
+      border: none;
+      border-bottom: 1px dashed #33ff33;
+      outline: none;
+    }
+
     .station-name.no-signal {
       color: #ff3333;
       text-shadow: 0 0 8px rgba(255, 51, 51, 0.6);
     }
 
+    .buffer-meter {
+      position: absolute;
+      left: 0;
+      bottom: 0;
+      height: 2px;
+      background: #33ff33;
+      transition: width 0.2s linear;
+    }
+    .buffer-meter.low {
+      background: #ff3333;
+    }
+
+    .station-freq .bpm {
+      margin-left: 10px;
+      font-size: 11px;
+    }
+    .station-freq .timer {
+      margin-left: 10px;
+      font-size: 11px;
+    }
+    .station-freq .scan {
+      margin-left: 10px;
+      font-size: 11px;
+      animation: blink 1s steps(2, start) infinite;
+    }
+
+    .station-freq.notice {
+      color: orange;
+      opacity: 1;
+      animation: blink 0.5s steps(2, start) infinite;
+    }
+
+    .lcd-screen.detuned {
+      animation: flicker 0.18s steps(3) infinite;
+    }
+
+    @keyframes flicker {
+      0% { opacity: 1; }
+      33% { opacity: 0.5; }
+      66% { opacity: 0.85; }
+    }
+
+    @keyframes blink {
+      to { visibility: hidden; }
+    }
+
     /* --- Middle: Cassette --- */
     .cassette-deck {
       flex: 1;
@@ -271,6 +406,51 @@ export class PromptDjMidi extends LitElement {
       z-index: 0;
     }
 
+    .rec-indicator {
+      position: absolute;
+      top: 4px;
+      left: 8px;
+      color: #ff3333;
+      font-family: 'Courier New', monospace;
+      font-size: 10px;
+      font-weight: bold;
+      animation: blink 1s steps(2, start) infinite;
+    }
+
+    .deck-controls {
+      position: absolute;
+      right: 6px;
+      top: 50%;
+      transform: translateY(-50%);
+      display: flex;
+      flex-direction: column;
+      gap: 3px;
+    }
+    .deck-controls button {
+      font-family: 'Courier New', monospace;
+      font-size: 9px;
+      font-weight: bold;
+      width: 38px;
+      padding: 2px 0;
+      color: #ccc;
+      background: #111;
+      border: 1px solid #000;
+      border-radius: 2px;
+      cursor: pointer;
+      box-shadow: 0 1px 0 rgba(255,255,255,0.1);
+    }
+    .deck-controls button.rec {
+      color: #ff3333;
+    }
+    .deck-controls button.rec.active {
+      color: #fff;
+      background: #c00;
+    }
+    .deck-controls button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+
     /* --- Bottom: Controls --- */
     .controls-panel {
       height: 90px;
@@ -284,8 +464,8 @@ export class PromptDjMidi extends LitElement {
       position: relative;
     }
     
-    /* Fake piano keys decoration */
-    .piano-keys {
+    /* Tuner keys along the top of the panel */
+    .tuner-keys {
         display: flex;
         gap: 2px;
         height: 20px;
@@ -293,12 +473,21 @@ export class PromptDjMidi extends LitElement {
         top: -20px;
         left: 15px;
     }
-    .key {
-        width: 15px; height: 20px;
+    .tuner-keys button {
+        height: 20px;
+        padding: 0 6px;
+        font-family: 'Courier New', monospace;
+        font-size: 9px;
+        font-weight: bold;
+        color: #ccc;
         background: #111;
         border-radius: 2px 2px 0 0;
         border: 1px solid #444;
         border-bottom: none;
+        cursor: pointer;
+    }
+    .tuner-keys button.active {
+        color: #33ff33;
     }
 
     .play-btn-container {
@@ -320,6 +509,48 @@ export class PromptDjMidi extends LitElement {
       height: 50px;
     }
 
+    /* Volume and tone */
+    .tone-section {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .boost-switch {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 3px;
+      color: #ccc;
+      font-size: 8px;
+      font-weight: bold;
+      letter-spacing: 1px;
+    }
+    .boost-switch button {
+      width: 14px;
+      height: 24px;
+      padding: 0;
+      background: #111;
+      border: 1px solid #000;
+      border-radius: 2px;
+      cursor: pointer;
+      position: relative;
+    }
+    .boost-switch button::after {
+      content: '';
+      position: absolute;
+      left: 1px;
+      right: 1px;
+      bottom: 1px;
+      height: 10px;
+      background: #888;
+      border-radius: 1px;
+      transition: bottom 0.1s;
+    }
+    .boost-switch button.on::after {
+      bottom: 11px;
+      background: #33ff33;
+    }
+
     /* Tuning Knob Container */
     .tuning-section {
       display: flex;
@@ -352,6 +583,80 @@ export class PromptDjMidi extends LitElement {
     .tuning-knob:active {
       cursor: grabbing;
     }
+    .tuning-knob:focus {
+      outline: none;
+    }
+    .tuning-knob:focus-visible {
+      box-shadow: 0 0 0 3px #33ff33, 0 5px 10px rgba(0,0,0,0.5);
+    }
+
+    .sr-only {
+      position: absolute;
+      width: 1px;
+      height: 1px;
+      overflow: hidden;
+      clip: rect(0 0 0 0);
+      white-space: nowrap;
+    }
+
+    /* --- Toolbar & Panels --- */
+    .toolbar {
+      position: absolute;
+      top: 0;
+      left: 0;
+      padding: 5px;
+      display: flex;
+      gap: 5px;
+    }
+    .toolbar button {
+      font: inherit;
+      font-size: 10px;
+      font-weight: bold;
+      letter-spacing: 1px;
+      cursor: pointer;
+      color: #ccc;
+      background: #222;
+      border: 1px solid #000;
+      border-radius: 2px;
+      padding: 4px 8px;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.5);
+    }
+    .toolbar button.active {
+      color: #33ff33;
+      background: #000;
+    }
+    .panel {
+      position: absolute;
+      top: 35px;
+      left: 5px;
+      min-width: 240px;
+      padding: 10px;
+      background: #222;
+      border: 2px solid #000;
+      border-radius: 4px;
+      box-shadow: 0 10px 20px rgba(0,0,0,0.6);
+      z-index: 1;
+    }
+
+    /* --- Mixer --- */
+    .mixer {
+      display: grid;
+      grid-template-columns: repeat(8, 1fr);
+      gap: 10px 5px;
+      width: 90vw;
+      max-width: 900px;
+      padding: 15px;
+      box-sizing: border-box;
+      background: #222;
+      border: 4px solid #000;
+      border-radius: 12px;
+      box-shadow: 0 30px 60px rgba(0,0,0,0.8);
+    }
+    @media (max-width: 600px) {
+      .mixer {
+        grid-template-columns: repeat(4, 1fr);
+      }
+    }
   `;
 
   private prompts: Map<string, Prompt>;
@@ -359,14 +664,57 @@ export class PromptDjMidi extends LitElement {
 
   @property({ type: String }) public playbackState: PlaybackState = 'stopped';
   @state() public audioLevel = 0;
+  @state() public spectrum: SpectrumFrame | null = null;
+  @state() public meter: StereoMeter | null = null;
+  /** Estimated tempo, or null while unknown. */
+  @state() public bpm: number | null = null;
+  /** Extra speaker excursion from the last beat, from 0 to 1. */
+  @state() private kickAmount = 0;
+  private kickTimer: number | null = null;
   @state() private activeIndex = 0;
   @state() private rotation = 0; // 0-360 degrees
 
   @property({ type: Object })
   private filteredPrompts = new Set<string>();
 
-  constructor(initialPrompts: Map<string, Prompt>) {
+  private presetStore: PresetStore;
+  private midiDispatcher: MidiDispatcher;
+  private midiMapper: MidiMapper;
+  private shortcutMap: ShortcutMap;
+  private crossfader: Crossfader;
+  private scanner: Scanner;
+  @state() private crossfade: CrossfadeSettings;
+  @state() private scan: ScanSettings;
+  @state() private scanning = false;
+  /** Static from the knob sitting between stations, from 0 to 1. */
+  @state() private tuningNoise = 0;
+  /** Text for the screen reader live region. */
+  @state() private liveMessage = '';
+  private dragging = false;
+  /** Static level last sent out, to only report changes. */
+  private staticLevel = 0;
+  @property({ type: Object }) public staticSettings: StaticSettings | null = null;
+  @state() private openPanel: PanelName | null = null;
+  @state() private showMixer = false;
+  @state() private showShortcuts = false;
+  @state() private musicConfig: MusicConfig = {};
+  @state() private notice: string | null = null;
+  @state() private editingName = false;
+  @property({ type: Boolean }) public recording = false;
+  @property({ type: Object }) public bufferHealth: BufferHealth | null = null;
+  @property({ type: Object }) public chunkStats: ChunkStats | null = null;
+  @property({ type: Object }) public announcerSettings: AnnouncerSettings | null = null;
+  @property({ type: Object }) public masterSettings: MasterSettings | null = null;
+  @property({ type: Object }) public clockSettings: ClockSettings | null = null;
+  @property({ type: Object }) public countdown: ClockCountdown | null = null;
+  @state() private recordFormat: RecordingFormat = 'wav';
+  @state() private recordVoice = true;
+  private noticeTimer: number | null = null;
+  @state() private midiInputIds: string[] = [];
+
+  constructor(initialPrompts: Map<string, Prompt>, presetStore: PresetStore) {
     super();
+    this.presetStore = presetStore;
     this.prompts = initialPrompts;
     this.promptKeys = Array.from(initialPrompts.keys());
     
@@ -377,12 +725,77 @@ export class PromptDjMidi extends LitElement {
       this.rotation = this.calculateAngleForIndex(this.activeIndex);
     }
 
+    this.crossfade = loadJson<CrossfadeSettings>(CROSSFADE_STORAGE_KEY, DEFAULT_CROSSFADE);
+    this.crossfader = new Crossfader((weights, settled) => this.applyWeights(weights, settled), this.crossfade);
+    this.scan = loadJson<ScanSettings>(SCAN_STORAGE_KEY, DEFAULT_SCAN);
+    this.scanner = new Scanner(() => this.scanStep(), this.scan);
+
     this.handlePointerDown = this.handlePointerDown.bind(this);
     this.handlePointerMove = this.handlePointerMove.bind(this);
     this.handlePointerUp = this.handlePointerUp.bind(this);
+
+    this.midiDispatcher = new MidiDispatcher();
+    this.midiMapper = new MidiMapper(this.midiDispatcher);
+    this.midiMapper.addEventListener('tune-absolute', (e: Event) => {
+      this.tuneTo((e as CustomEvent<number>).detail);
+    });
+    this.midiMapper.addEventListener('tune-relative', (e: Event) => {
+      this.tuneBy((e as CustomEvent<number>).detail);
+    });
+    this.midiMapper.addEventListener('play-pause', () => {
+      this.playPause();
+    });
+    this.midiMapper.addEventListener('volume', (e: Event) => {
+      (this as LitElement).dispatchEvent(
+        new CustomEvent<number>('volume-changed', { detail: (e as CustomEvent<number>).detail }),
+      );
+    });
+    // Reconnect the controller so saved mappings work without opening the panel.
+    if (this.midiMapper.inputId || this.midiMapper.hasBindings) {
+      this.connectMidi().catch((e) => console.error('Failed to restore MIDI input:', e));
+    }
+
+    this.shortcutMap = new ShortcutMap();
+    this.shortcutMap.addEventListener('shortcut', (e: Event) => {
+      this.runShortcut((e as CustomEvent<ShortcutAction>).detail);
+    });
+    this.handleGlobalKeyDown = this.handleGlobalKeyDown.bind(this);
+
     this.generateBackgroundImage();
   }
 
+  connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener('keydown', this.handleGlobalKeyDown);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener('keydown', this.handleGlobalKeyDown);
+    this.stopScan();
+  }
+
+  updated(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('playbackState') && changedProperties.get('playbackState') !== undefined) {
+      this.announce(PLAYBACK_ANNOUNCEMENTS[this.playbackState]);
+      if (this.playbackState === 'stopped' || this.playbackState === 'paused') this.stopScan();
+    }
+  }
+
+  /** Reads a message out through the live region. */
+  private announce(message: string) {
+    // Clear first, so repeating the same message is still announced.
+    this.liveMessage = '';
+    requestAnimationFrame(() => {
+      this.liveMessage = message;
+    });
+  }
+
+  private describeStation(prompt: Prompt) {
+    const signal = this.filteredPrompts.has(prompt.text) ? ', no signal' : '';
+    return `FM ${prompt.frequency.toFixed(1)}, ${prompt.text}${signal}`;
+  }
+
   private async generateBackgroundImage() {
     // FIX: Use `process.env.API_KEY` per coding guidelines.
     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
@@ -418,6 +831,19 @@ export class PromptDjMidi extends LitElement {
     return this.prompts.get(this.promptKeys[this.activeIndex])!;
   }
 
+  /** Prompts with a non-zero weight, heaviest first. */
+  private get audiblePrompts(): Prompt[] {
+    return [...this.prompts.values()]
+      .filter((p) => p.weight > 0)
+      .sort((a, b) => b.weight - a.weight);
+  }
+
+  /** True when the mixer has left anything other than a single station at full weight. */
+  private get isBlended() {
+    const audible = this.audiblePrompts;
+    return audible.length > 1 || (audible.length === 1 && audible[0].weight !== 1);
+  }
+
   private calculateAngleForIndex(index: number) {
     const count = this.promptKeys.length;
     // Map index to a portion of the circle, e.g., start at -135deg to +135deg range
@@ -425,27 +851,253 @@ export class PromptDjMidi extends LitElement {
     return (index / count) * 360;
   }
 
-  private setStation(index: number) {
-    if (index === this.activeIndex) return;
-    
-    this.activeIndex = index;
-    
-    const newPrompts = new Map(this.prompts);
-    this.promptKeys.forEach((key, i) => {
-      const p = newPrompts.get(key)!;
-      p.weight = i === index ? 1 : 0;
-      newPrompts.set(key, p);
-    });
-    
+  private get weights(): Weights {
+    return new Map([...this.prompts.values()].map((p) => [p.promptId, p.weight]));
+  }
+
+  /**
+   * Applies a frame from the crossfader and passes the prompts on to the
+   * music. Once the weights come to rest, and the knob is let go, the
+   * station is also reported as settled.
+   */
+  private applyWeights(weights: Weights, settled: boolean) {
+    const newPrompts = new Map<string, Prompt>();
+    for (const [key, prompt] of this.prompts) {
+      newPrompts.set(key, { ...prompt, weight: weights.get(key) ?? prompt.weight });
+    }
     this.prompts = newPrompts;
     // FIX: Cast to LitElement to access dispatchEvent.
     (this as LitElement).dispatchEvent(
       new CustomEvent('prompts-changed', { detail: this.prompts }),
     );
+    if (settled && !this.dragging) {
+      (this as LitElement).dispatchEvent(
+        new CustomEvent('prompts-settled', { detail: this.prompts }),
+      );
+    }
+    this.syncStatic();
     // FIX: Cast to LitElement to access requestUpdate.
     (this as LitElement).requestUpdate();
   }
 
+  /** Sends the current prompts on, unless a fade is already carrying them. */
+  private publishPrompts() {
+    if (this.crossfader.isFading) return;
+    this.crossfader.set(this.weights);
+  }
+
+  /** Reports how much static should play, on the dial or from a filtered station. */
+  private syncStatic() {
+    const isFiltered = !this.isBlended && this.filteredPrompts.has(this.currentPrompt.text);
+    const level = Math.max(this.tuningNoise, isFiltered ? FILTERED_STATIC : 0);
+    if (level === this.staticLevel) return;
+    this.staticLevel = level;
+    (this as LitElement).dispatchEvent(new CustomEvent<number>('static-changed', { detail: level }));
+  }
+
+  /** Crossfades to a single station. */
+  private setStation(index: number) {
+    this.tuningNoise = 0;
+    this.syncStatic();
+    if (index === this.activeIndex && !this.isBlended) return;
+
+    this.activeIndex = index;
+    this.announce(`Tuned to ${this.describeStation(this.currentPrompt)}`);
+    const target: Weights = new Map(this.promptKeys.map((key, i) => [key, i === index ? 1 : 0]));
+    this.crossfader.fadeTo(this.weights, target);
+  }
+
+  /**
+   * Tunes to a knob position. Close to a station the knob holds it cleanly;
+   * between stations it blends the two neighbours along the crossfade curve.
+   */
+  private blendAtRotation(rotation: number) {
+    const count = this.promptKeys.length;
+    const position = (((rotation % 360) + 360) % 360) / (360 / count);
+    const lower = Math.floor(position) % count;
+    const upper = (lower + 1) % count;
+    const fraction = position - Math.floor(position);
+    this.activeIndex = fraction < 0.5 ? lower : upper;
+
+    const blend = Math.max(0, Math.min(1, (fraction - DETENT_WIDTH) / (1 - 2 * DETENT_WIDTH)));
+    const [lowerGain, upperGain] = crossfadeGains(blend, this.crossfade.curve);
+
+    // Hiss is loudest halfway between stations.
+    const detuning = 1 - Math.abs(blend - 0.5) * 2;
+    this.tuningNoise = Math.max(detuning, this.dragging ? DRAG_STATIC : 0);
+    this.syncStatic();
+    const weights: Weights = new Map(this.promptKeys.map((key) => [key, 0]));
+    weights.set(this.promptKeys[upper], upperGain);
+    // Set last, so a single-station dial keeps its station at full weight.
+    weights.set(this.promptKeys[lower], lowerGain);
+    this.crossfader.set(weights);
+  }
+
+  /** Moves the knob to an absolute position (0-1) across all stations. */
+  private tuneTo(position: number) {
+    this.stopScan();
+    const count = this.promptKeys.length;
+    // Keep the top of the range on the last station instead of wrapping to the first.
+    this.rotation = position * 360 * (count - 1) / count;
+    this.blendAtRotation(this.rotation);
+  }
+
+  /** Steps the knob by a number of stations, wrapping around the dial. */
+  private tuneBy(steps: number) {
+    this.stopScan();
+    const count = this.promptKeys.length;
+    const index = (((this.activeIndex + steps) % count) + count) % count;
+    this.rotation = this.calculateAngleForIndex(index);
+    this.setStation(index);
+  }
+
+  private tuneToIndex(index: number) {
+    this.stopScan();
+    this.rotation = this.calculateAngleForIndex(index);
+    this.setStation(index);
+  }
+
+  private hasSignal(index: number) {
+    return !this.filteredPrompts.has(this.prompts.get(this.promptKeys[index])!.text);
+  }
+
+  /**
+   * Tunes to the next station in `direction` that the model hasn't filtered.
+   * Returns false when there is no other station with a signal.
+   */
+  private seek(direction: 1 | -1) {
+    const index = findClearStation(this.activeIndex, this.promptKeys.length, direction, (i) => this.hasSignal(i));
+    if (index === null || index === this.activeIndex) {
+      this.showNotice('NO SIGNAL');
+      return false;
+    }
+    this.rotation = this.calculateAngleForIndex(index);
+    this.setStation(index);
+    return true;
+  }
+
+  private handleSeek(direction: 1 | -1) {
+    this.stopScan();
+    this.seek(direction);
+  }
+
+  private toggleScan() {
+    if (this.scanning) {
+      this.stopScan();
+      return;
+    }
+    this.scanning = true;
+    this.dispatchScanning();
+    this.scanner.start();
+  }
+
+  private scanStep() {
+    if (this.seek(1)) return true;
+    this.stopScan();
+    return false;
+  }
+
+  /** Ends a scan, locking on the station it reached. */
+  private stopScan() {
+    if (!this.scanning) return;
+    this.scanner.stop();
+    this.scanning = false;
+    this.dispatchScanning();
+    this.announce(`Scan locked on ${this.describeStation(this.currentPrompt)}`);
+  }
+
+  private dispatchScanning() {
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<ScanSettings | null>('scanning-changed', { detail: this.scanning ? this.scan : null }),
+    );
+  }
+
+  /** Keys pressed anywhere on the page, unless a control used them first. */
+  private handleGlobalKeyDown(e: KeyboardEvent) {
+    if (e.defaultPrevented) return;
+    if (!this.shortcutMap.learning) {
+      if (handlesKey(e.composedPath()[0], e.key)) return;
+      if (e.key === 'Escape' && this.showShortcuts) {
+        this.showShortcuts = false;
+        return;
+      }
+    }
+    if (this.shortcutMap.handleKeyDown(e)) e.preventDefault();
+  }
+
+  /**
+   * Runs a keyboard shortcut through the same paths as the knob, buttons and
+   * MIDI, so every input stays in sync.
+   */
+  private runShortcut(action: ShortcutAction) {
+    switch (action) {
+      case 'next-station':
+        this.tuneBy(1);
+        break;
+      case 'previous-station':
+        this.tuneBy(-1);
+        break;
+      case 'play-pause':
+        this.playPause();
+        break;
+      case 'record':
+        this.toggleRecording();
+        break;
+      case 'mute-announcer': {
+        if (!this.announcerSettings) break;
+        const enabled = !this.announcerSettings.enabled;
+        (this as LitElement).dispatchEvent(
+          new CustomEvent<Partial<AnnouncerSettings>>('announcer-settings-changed', { detail: { enabled } }),
+        );
+        this.announce(enabled ? 'DJ on air' : 'DJ muted');
+        break;
+      }
+      case 'volume-up':
+      case 'volume-down': {
+        if (!this.masterSettings) break;
+        const step = action === 'volume-up' ? VOLUME_STEP : -VOLUME_STEP;
+        const volume = Math.max(0, Math.min(1, this.masterSettings.volume + step));
+        (this as LitElement).dispatchEvent(new CustomEvent<number>('volume-changed', { detail: volume }));
+        break;
+      }
+      case 'help':
+        this.showShortcuts = !this.showShortcuts;
+        break;
+      default: {
+        // favorite-1 to favorite-9: the first nine stations on the dial.
+        const index = parseInt(action.slice('favorite-'.length), 10) - 1;
+        if (index < this.promptKeys.length) this.tuneToIndex(index);
+      }
+    }
+  }
+
+  private handleKnobKeyDown(e: KeyboardEvent) {
+    const count = this.promptKeys.length;
+    const steps: Record<string, number> = {
+      ArrowUp: 1,
+      ArrowRight: 1,
+      ArrowDown: -1,
+      ArrowLeft: -1,
+      PageUp: PAGE_STEP,
+      PageDown: -PAGE_STEP,
+    };
+    if (e.key in steps) {
+      this.tuneBy(steps[e.key]);
+    } else if (e.key === 'Home') {
+      this.tuneToIndex(0);
+    } else if (e.key === 'End') {
+      this.tuneToIndex(count - 1);
+    } else if (/^[0-9]$/.test(e.key)) {
+      // 1-9 pick the first nine stations, 0 the tenth.
+      const index = e.key === '0' ? 9 : parseInt(e.key, 10) - 1;
+      if (index >= count) return;
+      this.tuneToIndex(index);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  }
+
   private startAngle = 0;
   private startRotation = 0;
 
@@ -460,11 +1112,13 @@ export class PromptDjMidi extends LitElement {
   }
 
   private handlePointerDown(e: PointerEvent) {
+    this.stopScan();
     const target = e.currentTarget as HTMLElement;
     const rect = target.getBoundingClientRect();
     
     this.startAngle = this.getAngleFromEvent(e, rect);
     this.startRotation = this.rotation;
+    this.dragging = true;
     
     target.setPointerCapture(e.pointerId);
     target.addEventListener('pointermove', this.handlePointerMove);
@@ -485,26 +1139,25 @@ export class PromptDjMidi extends LitElement {
     
     this.rotation = (this.startRotation + delta + 360) % 360;
     
-    // Calculate active station
-    const count = this.promptKeys.length;
-    const segmentSize = 360 / count;
-    const rawIndex = Math.floor(((this.rotation + segmentSize/2) % 360) / segmentSize);
-    const index = Math.max(0, Math.min(count - 1, rawIndex)); // Safety clamp
-    
-    this.setStation(index);
+    // Blend between the stations either side of the needle
+    this.blendAtRotation(this.rotation);
   }
 
   private handlePointerUp(e: PointerEvent) {
     const target = e.currentTarget as HTMLElement;
     target.releasePointerCapture(e.pointerId);
+    this.dragging = false;
     target.removeEventListener('pointermove', this.handlePointerMove);
     target.removeEventListener('pointerup', this.handlePointerUp);
     target.removeEventListener('pointercancel', this.handlePointerUp);
     
-    // Snap to exact center of station
+    // Snap to exact center of station, fading out any blend
     const count = this.promptKeys.length;
     const step = 360 / count;
     this.rotation = this.activeIndex * step;
+    this.setStation(this.activeIndex);
+    // Already centred: no fade runs, so settle on the weights the drag left.
+    this.publishPrompts();
   }
 
   private playPause() {
@@ -512,8 +1165,308 @@ export class PromptDjMidi extends LitElement {
     (this as LitElement).dispatchEvent(new CustomEvent('play-pause'));
   }
 
+  private handlePromptChanged(e: CustomEvent<Prompt>) {
+    const { promptId, text, weight, cc } = e.detail;
+    const prompt = this.prompts.get(promptId);
+    if (!prompt) return;
+
+    const isStationEdit = prompt.text !== text || prompt.cc !== cc;
+    const newPrompts = new Map(this.prompts);
+    newPrompts.set(promptId, { ...prompt, text, weight, cc });
+    this.prompts = newPrompts;
+
+    // Keep the active preset in sync so edits survive a reload.
+    if (isStationEdit) this.saveActivePreset();
+
+    // A hand on the mixer takes over from any fade in progress.
+    this.crossfader.set(this.weights);
+    (this as LitElement).requestUpdate();
+  }
+
+  /** Replaces every station on the dial and tunes to the first one. */
+  private setPrompts(prompts: Map<string, Prompt>) {
+    this.prompts = prompts;
+    this.promptKeys = Array.from(prompts.keys());
+    this.activeIndex = 0;
+    this.rotation = 0;
+    // The old dial's fade must not leak onto the new stations.
+    this.crossfader.set(this.weights);
+    (this as LitElement).requestUpdate();
+  }
+
+  /**
+   * Rebuilds the dial from an edited, ordered station list, keeping each
+   * station's frequency. The knob follows the active station.
+   */
+  private applyStations(ordered: Prompt[], activePromptId: string) {
+    let activeIndex = ordered.findIndex((p) => p.promptId === activePromptId);
+    if (activeIndex === -1) {
+      // The active station was removed; tune to its neighbour.
+      activeIndex = Math.min(this.activeIndex, ordered.length - 1);
+      if (!this.isBlended) {
+        ordered = ordered.map((p, i) => ({ ...p, weight: i === activeIndex ? 1 : 0 }));
+      }
+    }
+
+    this.prompts = new Map(ordered.map((p) => [p.promptId, p]));
+    this.promptKeys = ordered.map((p) => p.promptId);
+    this.activeIndex = activeIndex;
+    this.rotation = this.calculateAngleForIndex(activeIndex);
+
+    this.publishPrompts();
+    this.saveActivePreset();
+    (this as LitElement).requestUpdate();
+  }
+
+  private get orderedPrompts(): Prompt[] {
+    return this.promptKeys.map((key) => this.prompts.get(key)!);
+  }
+
+  private handleStationAdded() {
+    const ordered = this.orderedPrompts;
+    // Ids must stay unique even after removals, so count past the highest.
+    const nextId = Math.max(-1, ...this.promptKeys.map((key) => parseInt(key.split('-')[1], 10) || 0)) + 1;
+    const usedCCs = new Set(ordered.map((p) => p.cc));
+    let cc = 0;
+    while (usedCCs.has(cc) && cc < 127) cc++;
+
+    ordered.push({
+      promptId: `prompt-${nextId}`,
+      text: 'New Station',
+      weight: 0,
+      cc,
+      color: STATION_COLORS[ordered.length % STATION_COLORS.length],
+      // One step up the dial from the highest station.
+      frequency: Math.max(...ordered.map((p) => p.frequency)) + DIAL_STEP,
+    });
+    this.applyStations(ordered, this.currentPrompt.promptId);
+  }
+
+  private handleStationRemoved(e: CustomEvent<string>) {
+    if (this.promptKeys.length === 1) return;
+    const ordered = this.orderedPrompts.filter((p) => p.promptId !== e.detail);
+    this.applyStations(ordered, this.currentPrompt.promptId);
+  }
+
+  private handleStationChanged(e: CustomEvent<StationEdit>) {
+    const { promptId, text, color } = e.detail;
+    const ordered = this.orderedPrompts.map((p) => {
+      if (p.promptId !== promptId) return p;
+      return { ...p, text: text ?? p.text, color: color ?? p.color };
+    });
+    this.applyStations(ordered, this.currentPrompt.promptId);
+  }
+
+  private handleStationMoved(e: CustomEvent<StationMove>) {
+    const { from, to } = e.detail;
+    if (from === to) return;
+    const ordered = this.orderedPrompts;
+    // The dial positions keep their frequencies; the stations move between them.
+    const frequencies = ordered.map((p) => p.frequency);
+    const [moved] = ordered.splice(from, 1);
+    ordered.splice(to, 0, moved);
+    this.applyStations(ordered.map((p, i) => ({ ...p, frequency: frequencies[i] })), this.currentPrompt.promptId);
+  }
+
+  private startEditingName() {
+    if (this.isBlended) return;
+    this.editingName = true;
+    (this as LitElement).updateComplete.then(() => {
+      const input = (this as unknown as HTMLElement).shadowRoot?.querySelector<HTMLInputElement>('.station-name-input');
+      input?.focus();
+      input?.select();
+    });
+  }
+
+  private handleNameKeyDown(e: KeyboardEvent) {
+    const input = e.target as HTMLInputElement;
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      input.blur();
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      input.value = this.currentPrompt.text;
+      input.blur();
+    }
+  }
+
+  private commitName(e: Event) {
+    this.editingName = false;
+    const text = (e.target as HTMLInputElement).value.trim();
+    const prompt = this.currentPrompt;
+    if (!text || text === prompt.text) return;
+    this.handleStationChanged(new CustomEvent<StationEdit>('station-changed', {
+      detail: { promptId: prompt.promptId, text },
+    }));
+  }
+
+  private toggleShowStations() {
+    this.openPanel = this.openPanel === 'stations' ? null : 'stations';
+  }
+
+  private saveActivePreset() {
+    this.presetStore.put({
+      name: this.presetStore.activeList.name,
+      stations: stationsFromPrompts(this.prompts.values()),
+    });
+  }
+
+  private handlePresetSelected(e: CustomEvent<StationList>) {
+    const list = e.detail;
+    this.presetStore.setActive(list.name);
+    this.setPrompts(promptsFromStations(list.stations));
+  }
+
+  private forwardError(e: CustomEvent<string>) {
+    (this as LitElement).dispatchEvent(new CustomEvent('error', { detail: e.detail }));
+  }
+
+  private toggleShowPresets() {
+    this.openPanel = this.openPanel === 'presets' ? null : 'presets';
+  }
+
+  private toggleShowMixer() {
+    this.showMixer = !this.showMixer;
+  }
+
+  private async connectMidi() {
+    this.midiInputIds = await this.midiDispatcher.getMidiAccess();
+    // Prefer the saved device if it is still connected.
+    const savedId = this.midiMapper.inputId;
+    if (savedId && this.midiInputIds.includes(savedId)) {
+      this.midiDispatcher.activeMidiInputId = savedId;
+    }
+    // Remember a device picked automatically too; the panel's select never fires for it.
+    const activeId = this.midiDispatcher.activeMidiInputId;
+    if (activeId && activeId !== savedId) this.midiMapper.inputId = activeId;
+  }
+
+  private get showMidi() {
+    return this.openPanel === 'midi';
+  }
+
+  private async toggleShowMidi() {
+    this.openPanel = this.showMidi ? null : 'midi';
+    if (!this.showMidi) return;
+    try {
+      await this.connectMidi();
+    } catch (e) {
+      this.openPanel = null;
+      (this as LitElement).dispatchEvent(new CustomEvent('error', { detail: e instanceof Error ? e.message : String(e) }));
+    }
+  }
+
+  private toggleShowConfig() {
+    this.openPanel = this.openPanel === 'config' ? null : 'config';
+  }
+
+  private handleConfigChanged(e: CustomEvent<MusicConfig>) {
+    this.musicConfig = e.detail;
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<MusicConfig>('music-config-changed', { detail: this.musicConfig }),
+    );
+  }
+
+  private handleStaticSettingsChanged(e: CustomEvent<Partial<StaticSettings>>) {
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<Partial<StaticSettings>>('static-settings-changed', { detail: e.detail }),
+    );
+  }
+
+  private handleCrossfadeChanged(e: CustomEvent<CrossfadeSettings>) {
+    this.crossfade = e.detail;
+    this.crossfader.settings = e.detail;
+    saveJson(CROSSFADE_STORAGE_KEY, e.detail);
+  }
+
+  private handleScanChanged(e: CustomEvent<ScanSettings>) {
+    this.scan = e.detail;
+    this.scanner.settings = e.detail;
+    saveJson(SCAN_STORAGE_KEY, e.detail);
+    // A scan in progress takes the new settings from its next station.
+    if (this.scanning) this.dispatchScanning();
+  }
+
+  private toggleShowClock() {
+    this.openPanel = this.openPanel === 'clock' ? null : 'clock';
+  }
+
+  private handleSleepSet(e: CustomEvent<number | null>) {
+    (this as LitElement).dispatchEvent(new CustomEvent<number | null>('sleep-timer-set', { detail: e.detail }));
+  }
+
+  private handleClockSettingsChanged(e: CustomEvent<Partial<ClockSettings>>) {
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<Partial<ClockSettings>>('clock-settings-changed', { detail: e.detail }),
+    );
+  }
+
+  /** Tunes to the station with the given text. Returns false when it isn't on the dial. */
+  public tuneToStation(text: string) {
+    const index = this.orderedPrompts.findIndex((p) => p.text === text);
+    if (index === -1) return false;
+    this.tuneToIndex(index);
+    return true;
+  }
+
+  private toggleShowAnnouncer() {
+    this.openPanel = this.openPanel === 'announcer' ? null : 'announcer';
+  }
+
+  private handleAnnouncerSettingsChanged(e: CustomEvent<Partial<AnnouncerSettings>>) {
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<Partial<AnnouncerSettings>>('announcer-settings-changed', { detail: e.detail }),
+    );
+  }
+
+  private updateMaster(changes: Partial<MasterSettings>) {
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<Partial<MasterSettings>>('master-settings-changed', { detail: changes }),
+    );
+  }
+
+  private toggleRecording() {
+    const options: RecordingOptions = {
+      format: this.recordFormat,
+      includeVoice: this.recordVoice,
+    };
+    (this as LitElement).dispatchEvent(
+      new CustomEvent<RecordingOptions>('record-toggle', { detail: options }),
+    );
+  }
+
+  private toggleRecordFormat() {
+    this.recordFormat = this.recordFormat === 'wav' ? 'opus' : 'wav';
+  }
+
+  private toggleRecordVoice() {
+    this.recordVoice = !this.recordVoice;
+  }
+
+  /** Kicks the speaker cones out for a beat. */
+  public kick(strength: number) {
+    this.kickAmount = strength;
+    if (this.kickTimer) clearTimeout(this.kickTimer);
+    this.kickTimer = window.setTimeout(() => {
+      this.kickAmount = 0;
+      this.kickTimer = null;
+    }, 80);
+  }
+
+  /** Flashes a short status message on the LCD in place of the frequency. */
+  public showNotice(text: string, duration = 2000) {
+    this.notice = text;
+    if (this.noticeTimer) clearTimeout(this.noticeTimer);
+    this.noticeTimer = window.setTimeout(() => {
+      this.notice = null;
+      this.noticeTimer = null;
+    }, duration);
+  }
+
   public addFilteredPrompt(prompt: string) {
     this.filteredPrompts = new Set([...this.filteredPrompts, prompt]);
+    this.syncStatic();
     // FIX: Cast to LitElement to access requestUpdate.
     (this as LitElement).requestUpdate();
   }
@@ -523,17 +1476,41 @@ export class PromptDjMidi extends LitElement {
     const prompt = this.currentPrompt;
     const isFiltered = this.filteredPrompts.has(prompt.text);
     const isPlaying = this.playbackState === 'playing';
+    const isBlended = this.isBlended;
 
-    // Fake frequency logic: Start at 88.0, add 1.5 per station index
-    const frequency = (88.0 + (this.activeIndex * 1.5)).toFixed(1);
+    const frequency = prompt.frequency.toFixed(1);
 
     // Speaker Pulse
-    const pulseScale = 1 + (this.audioLevel * 0.15); // subtle pulse
+    const pulseScale = 1 + (this.audioLevel * 0.15) + (this.kickAmount * 0.08); // subtle pulse, kick on beats
     const speakerStyle = styleMap({
         transform: `scale(${pulseScale})`
     });
 
+    // Spools turn once per bar of four beats when the tempo is known
+    const spoolStyle = styleMap({
+        animationDuration: this.bpm ? `${(240 / this.bpm).toFixed(2)}s` : '',
+    });
+
     return html`
+      <div class="sr-only" role="status" aria-live="polite">${this.liveMessage}</div>
+      <div class="toolbar">
+        <button class=${this.showMidi ? 'active' : ''} @click=${this.toggleShowMidi}>MIDI</button>
+        <button class=${this.showMixer ? 'active' : ''} @click=${this.toggleShowMixer}>MIXER</button>
+        <button class=${this.openPanel === 'config' ? 'active' : ''} @click=${this.toggleShowConfig}>CONFIG</button>
+        <button class=${this.openPanel === 'presets' ? 'active' : ''} @click=${this.toggleShowPresets}>PRESETS</button>
+        <button class=${this.openPanel === 'stations' ? 'active' : ''} @click=${this.toggleShowStations}>STATIONS</button>
+        <button class=${this.openPanel === 'announcer' ? 'active' : ''} @click=${this.toggleShowAnnouncer}>DJ</button>
+        <button class=${this.openPanel === 'clock' ? 'active' : ''} @click=${this.toggleShowClock}>CLOCK</button>
+        <button
+          class=${this.showShortcuts ? 'active' : ''}
+          title="Keyboard shortcuts"
+          @click=${() => this.showShortcuts = !this.showShortcuts}>?</button>
+      </div>
+      ${this.openPanel ? html`<div class="panel">${this.renderPanel(this.openPanel)}</div>` : ''}
+      ${this.showShortcuts ? html`<shortcut-overlay
+        .shortcutMap=${this.shortcutMap}
+        @close=${() => this.showShortcuts = false}
+      ></shortcut-overlay>` : ''}
       <div class="handle"></div>
       <div class="boombox">
         
@@ -551,32 +1528,67 @@ export class PromptDjMidi extends LitElement {
             
             <!-- Display -->
             <div class="display-panel">
-                <div class="lcd-screen">
-                    <div class="station-freq">FM ${frequency} MHz</div>
-                    <div class="station-name ${isFiltered ? 'no-signal' : ''}">
-                        ${isFiltered ? 'NO SIGNAL' : prompt.text}
+                ${this.renderBufferMeter()}
+                <div class="display-row">
+                    <vu-meter label="L" .reading=${this.meter?.left ?? null}></vu-meter>
+                    <div class="lcd-screen ${this.tuningNoise > 0 ? 'detuned' : ''}">
+                        <spectrum-bars .bars=${this.spectrum?.bars ?? []}></spectrum-bars>
+                        ${this.notice || this.playbackState === 'reconnecting'
+                          ? html`<div class="station-freq notice">${this.notice ?? 'RECONNECTING...'}</div>`
+                          : html`<div class="station-freq">
+                          ${isBlended ? 'FM MIX' : `FM ${frequency} MHz`}${this.bpm && isPlaying ? html`<span class="bpm">${Math.round(this.bpm)} BPM</span>` : ''}${this.scanning ? html`<span class="scan">SCAN</span>` : ''}${this.renderTimers()}
+                        </div>`}
+                        ${this.editingName ? html`<input
+                            class="station-name-input"
+                            spellcheck="false"
+                            .value=${prompt.text}
+                            @keydown=${this.handleNameKeyDown}
+                            @blur=${this.commitName} />` : html`<div
+                            class="station-name ${isFiltered && !isBlended ? 'no-signal' : ''}"
+                            title="Double-click to rename"
+                            @dblclick=${this.startEditingName}>
+                            ${isBlended
+                              ? this.audiblePrompts.map((p) => p.text).join(' + ')
+                              : isFiltered ? 'NO SIGNAL' : prompt.text}
+                        </div>`}
                     </div>
+                    <vu-meter label="R" .reading=${this.meter?.right ?? null}></vu-meter>
                 </div>
             </div>
 
             <!-- Cassette Deck -->
             <div class="cassette-deck">
                 <div class="tape-window">
+                    ${this.recording ? html`<div class="rec-indicator">● REC</div>` : ''}
                     <div class="tape-connector"></div>
                     <div class="spool ${isPlaying ? 'spinning' : ''}">
-                        <div class="spool-teeth"></div>
+                        <div class="spool-teeth" style=${spoolStyle}></div>
                     </div>
                     <div class="spool ${isPlaying ? 'spinning' : ''}">
-                        <div class="spool-teeth"></div>
+                        <div class="spool-teeth" style=${spoolStyle}></div>
                     </div>
                 </div>
+                <div class="deck-controls">
+                    <button class="rec ${this.recording ? 'active' : ''}" @click=${this.toggleRecording}>● REC</button>
+                    <button ?disabled=${this.recording} @click=${this.toggleRecordFormat}>
+                        ${this.recordFormat === 'wav' ? 'WAV' : 'OPUS'}
+                    </button>
+                    <button ?disabled=${this.recording} @click=${this.toggleRecordVoice}>
+                        ${this.recordVoice ? 'DJ ON' : 'DJ OFF'}
+                    </button>
+                </div>
             </div>
 
             <!-- Controls -->
             <div class="controls-panel">
-                <!-- Fake keys -->
-                <div class="piano-keys">
-                    <div class="key"></div><div class="key"></div><div class="key"></div>
+                <div class="tuner-keys">
+                    <button title="Seek down" @click=${() => this.handleSeek(-1)}>◂ SEEK</button>
+                    <button
+                        class=${this.scanning ? 'active' : ''}
+                        title=${this.scanning ? 'Lock on this station' : 'Scan the stations'}
+                        aria-pressed=${this.scanning}
+                        @click=${this.toggleScan}>SCAN</button>
+                    <button title="Seek up" @click=${() => this.handleSeek(1)}>SEEK ▸</button>
                 </div>
 
                 <div class="play-btn-container">
@@ -586,10 +1598,23 @@ export class PromptDjMidi extends LitElement {
                     ></play-pause-button>
                 </div>
 
+                ${this.renderToneSection()}
+
                 <div class="tuning-section">
                     <div class="knob-label">TUNING</div>
                     <div class="knob-wrapper">
-                        <svg class="tuning-knob" viewBox="0 0 100 100" @pointerdown=${this.handlePointerDown}>
+                        <svg
+                            class="tuning-knob"
+                            viewBox="0 0 100 100"
+                            tabindex="0"
+                            role="slider"
+                            aria-label="Tuning"
+                            aria-valuemin="1"
+                            aria-valuemax=${this.promptKeys.length}
+                            aria-valuenow=${this.activeIndex + 1}
+                            aria-valuetext=${isBlended ? `Between stations, ${this.audiblePrompts.map((p) => p.text).join(' and ')}` : this.describeStation(prompt)}
+                            @keydown=${this.handleKnobKeyDown}
+                            @pointerdown=${this.handlePointerDown}>
                              <defs>
                                 <radialGradient id="knobGrad" cx="50%" cy="50%" r="50%" fx="30%" fy="30%">
                                     <stop offset="0%" stop-color="#666"/>
@@ -614,6 +1639,15 @@ export class PromptDjMidi extends LitElement {
                                  return svg`<rect x="46" y="2" width="8" height="10" fill="#333" transform="rotate(${rot} 50 50)" />`
                              })}
                              
+                             <!-- Station ticks, one per station on the dial -->
+                             ${this.promptKeys.map((key, i) => {
+                                 const isActive = i === this.activeIndex;
+                                 return svg`<circle cx="50" cy="22" r=${isActive ? 2 : 1.2}
+                                     fill=${isActive ? '#fff' : this.prompts.get(key)!.color}
+                                     opacity=${isActive ? 1 : 0.6}
+                                     transform="rotate(${this.calculateAngleForIndex(i)} 50 50)" />`;
+                             })}
+
                              <!-- Indicator Dot -->
                              <g transform="rotate(${this.rotation} 50 50)">
                                  <circle cx="50" cy="15" r="4" fill="#fff" />
@@ -635,8 +1669,152 @@ export class PromptDjMidi extends LitElement {
         </div>
         
       </div>
+      ${this.showMixer ? this.renderMixer() : ''}
     `;
   }
+
+  /**
+   * A thin bar along the LCD showing scheduled audio against the jitter
+   * buffer target. Its tooltip carries the chunk counts for debugging.
+   */
+  private renderBufferMeter() {
+    const health = this.bufferHealth;
+    if (!health || this.playbackState === 'stopped' || this.playbackState === 'paused') return '';
+    // Full width is twice the target, so a healthy buffer sits around the middle.
+    const fill = Math.min(1, health.lead / (health.target * 2));
+    const style = styleMap({ width: `${fill * 100}%` });
+    const isLow = health.lead < health.target / 2;
+    const chunks = this.chunkStats;
+    const chunkSummary = chunks
+      ? `\nChunks: ${chunks.received} received, ${chunks.played} played, ${chunks.dropped} dropped, `
+        + `${chunks.reordered} reordered, ${chunks.gaps} gaps`
+      : '';
+    return html`<div
+      class="buffer-meter ${isLow ? 'low' : ''}"
+      style=${style}
+      title="Buffer ${health.lead.toFixed(1)}s / ${health.target.toFixed(1)}s, ${health.underruns} underruns${chunkSummary}"></div>`;
+  }
+
+  private renderToneSection() {
+    const master = this.masterSettings;
+    if (!master) return '';
+    const eqKnob = (label: string, band: 'bass' | 'mid' | 'treble') => html`<tone-knob
+      label=${label}
+      min="-12"
+      max="12"
+      .value=${master[band]}
+      @value-changed=${(e: CustomEvent<number>) => this.updateMaster({ [band]: e.detail })}
+    ></tone-knob>`;
+    return html`<div class="tone-section">
+      <tone-knob
+        label="VOL"
+        min="0"
+        max="1"
+        .defaultValue=${1}
+        .value=${master.volume}
+        @value-changed=${(e: CustomEvent<number>) => this.updateMaster({ volume: e.detail })}
+      ></tone-knob>
+      ${eqKnob('BASS', 'bass')}
+      ${eqKnob('MID', 'mid')}
+      ${eqKnob('TREBLE', 'treble')}
+      <div class="boost-switch">
+        <button
+          class=${master.bassBoost ? 'on' : ''}
+          title="Bass boost"
+          @click=${() => this.updateMaster({ bassBoost: !master.bassBoost })}></button>
+        BOOST
+      </div>
+    </div>`;
+  }
+
+  /** Sleep and alarm countdowns for the LCD. */
+  private renderTimers() {
+    const sleep = this.countdown?.sleep ?? null;
+    const alarm = this.countdown?.alarm ?? null;
+    return html`${sleep !== null ? html`<span class="timer">ZZ ${formatCountdown(sleep)}</span>` : ''}${alarm !== null
+      ? html`<span class="timer" title="Alarm at ${this.clockSettings?.alarm.time}">AL ${formatCountdown(alarm)}</span>`
+      : ''}`;
+  }
+
+  private renderPanel(panel: PanelName) {
+    switch (panel) {
+      case 'midi':
+        return html`<midi-panel
+          .midiDispatcher=${this.midiDispatcher}
+          .midiMapper=${this.midiMapper}
+          .inputIds=${this.midiInputIds}
+        ></midi-panel>`;
+      case 'config':
+        return html`<music-config-panel
+          .config=${this.musicConfig}
+          .crossfade=${this.crossfade}
+          .scan=${this.scan}
+          .staticSettings=${this.staticSettings}
+          @config-changed=${this.handleConfigChanged}
+          @crossfade-changed=${this.handleCrossfadeChanged}
+          @scan-changed=${this.handleScanChanged}
+          @static-settings-changed=${this.handleStaticSettingsChanged}
+        ></music-config-panel>`;
+      case 'presets':
+        return html`<preset-panel
+          .presetStore=${this.presetStore}
+          .stations=${stationsFromPrompts(this.prompts.values())}
+          @preset-selected=${this.handlePresetSelected}
+          @error=${this.forwardError}
+        ></preset-panel>`;
+      case 'stations':
+        return html`<station-editor
+          .prompts=${this.orderedPrompts}
+          activePromptId=${this.currentPrompt.promptId}
+          @station-added=${this.handleStationAdded}
+          @station-removed=${this.handleStationRemoved}
+          @station-changed=${this.handleStationChanged}
+          @station-moved=${this.handleStationMoved}
+        ></station-editor>`;
+      case 'announcer':
+        return html`<announcer-panel
+          .settings=${this.announcerSettings}
+          @settings-changed=${this.handleAnnouncerSettingsChanged}
+        ></announcer-panel>`;
+      case 'clock':
+        return html`<clock-panel
+          .settings=${this.clockSettings}
+          .sleepRemaining=${this.countdown?.sleep ?? null}
+          .stations=${this.orderedPrompts.map((p) => p.text)}
+          @sleep-set=${this.handleSleepSet}
+          @settings-changed=${this.handleClockSettingsChanged}
+        ></clock-panel>`;
+    }
+  }
+
+  private renderMixer() {
+    return html`<div class="mixer">
+      ${this.promptKeys.map((key) => {
+        const prompt = this.prompts.get(key)!;
+        return html`<prompt-controller
+          promptId=${prompt.promptId}
+          ?filtered=${this.filteredPrompts.has(prompt.text)}
+          cc=${prompt.cc}
+          text=${prompt.text}
+          weight=${prompt.weight}
+          color=${prompt.color}
+          frequency=${prompt.frequency}
+          .midiDispatcher=${this.midiDispatcher}
+          .showCC=${this.showMidi}
+          audioLevel=${this.audioLevel}
+          @prompt-changed=${this.handlePromptChanged}>
+        </prompt-controller>`;
+      })}
+    </div>`;
+  }
+}
+
+/** True when the focused element uses a key itself, such as typing in a field or Space on a button. */
+function handlesKey(target: EventTarget | undefined, key: string) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return true;
+  const isButton = target.tagName === 'BUTTON' || target.getAttribute('role') === 'button';
+  return isButton && (key === ' ' || key === 'Enter');
 }
 
 declare global {
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { ShortcutAction } from '../types';
+import { describeKey, SHORTCUT_ACTIONS, type ShortcutMap } from '../utils/ShortcutMap';
+
+const ACTION_LABELS: Record<ShortcutAction, string> = {
+  'next-station': 'NEXT STATION',
+  'previous-station': 'PREVIOUS STATION',
+  'favorite-1': 'STATION 1',
+  'favorite-2': 'STATION 2',
+  'favorite-3': 'STATION 3',
+  'favorite-4': 'STATION 4',
+  'favorite-5': 'STATION 5',
+  'favorite-6': 'STATION 6',
+  'favorite-7': 'STATION 7',
+  'favorite-8': 'STATION 8',
+  'favorite-9': 'STATION 9',
+  'play-pause': 'PLAY/PAUSE',
+  'record': 'RECORD',
+  'mute-announcer': 'MUTE DJ',
+  'volume-up': 'VOLUME UP',
+  'volume-down': 'VOLUME DOWN',
+  'help': 'SHORTCUTS',
+};
+
+/**
+ * Lists the keyboard shortcuts and lets them be remapped: click a key, then
+ * press the new one. Dispatches `close` when dismissed.
+ */
+@customElement('shortcut-overlay')
+export class ShortcutOverlay extends LitElement {
+  static styles = css`
+    :host {
+      position: fixed;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      background: rgba(0, 0, 0, 0.6);
+      z-index: 10;
+    }
+    .sheet {
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      max-height: 90vh;
+      overflow-y: auto;
+      padding: 14px;
+      background: #222;
+      border: 2px solid #000;
+      border-radius: 4px;
+      box-shadow: 0 10px 20px rgba(0,0,0,0.6);
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #33ff33;
+    }
+    h2 {
+      margin: 0 0 6px;
+      color: #ccc;
+      font-family: 'Helvetica', 'Arial', sans-serif;
+      font-size: 12px;
+      letter-spacing: 2px;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+    }
+    .label {
+      flex: 1;
+      min-width: 140px;
+      color: #ccc;
+      font-family: 'Helvetica', 'Arial', sans-serif;
+      font-size: 10px;
+      font-weight: bold;
+      letter-spacing: 1px;
+    }
+    button {
+      font: inherit;
+      min-width: 28px;
+      padding: 2px 6px;
+      color: #33ff33;
+      background: #000;
+      border: 1px solid #555;
+      border-radius: 2px;
+      cursor: pointer;
+      &.key {
+        min-width: 70px;
+      }
+      &.learn-mode {
+        color: orange;
+        border-color: orange;
+      }
+    }
+    .footer {
+      display: flex;
+      justify-content: space-between;
+      margin-top: 8px;
+    }
+    .hint {
+      color: #ccc;
+      font-family: 'Helvetica', 'Arial', sans-serif;
+      font-size: 9px;
+    }
+  `;
+
+  @property({ type: Object }) shortcutMap: ShortcutMap | null = null;
+
+  constructor() {
+    super();
+    this.handleMappingChanged = this.handleMappingChanged.bind(this);
+    // Clicks on the sheet stop there, so any click reaching the host is on the backdrop.
+    (this as unknown as HTMLElement).addEventListener('click', () => this.close());
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.shortcutMap?.addEventListener('mapping-changed', this.handleMappingChanged);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.shortcutMap?.removeEventListener('mapping-changed', this.handleMappingChanged);
+  }
+
+  private handleMappingChanged() {
+    (this as LitElement).requestUpdate();
+  }
+
+  private close() {
+    (this as LitElement).dispatchEvent(new CustomEvent('close'));
+  }
+
+  private renderAction(action: ShortcutAction) {
+    const key = this.shortcutMap?.getKey(action) ?? null;
+    const learning = this.shortcutMap?.learning === action;
+    return html`<div class="row">
+      <span class="label">${ACTION_LABELS[action]}</span>
+      <button
+        class=${classMap({ key: true, 'learn-mode': learning })}
+        @click=${(e: MouseEvent) => {
+          // Keep the click's focus away from the button, so Space and Enter can be learned.
+          (e.currentTarget as HTMLElement).blur();
+          this.shortcutMap?.toggleLearnMode(action);
+        }}>
+        ${learning ? 'Press a key' : describeKey(key)}
+      </button>
+      <button ?disabled=${key === null} @click=${() => this.shortcutMap?.clearBinding(action)}>✕</button>
+    </div>`;
+  }
+
+  render() {
+    return html`<div
+      class="sheet"
+      role="dialog"
+      aria-label="Keyboard shortcuts"
+      @click=${(e: MouseEvent) => e.stopPropagation()}>
+      <h2>KEYBOARD SHORTCUTS</h2>
+      ${SHORTCUT_ACTIONS.map((action) => this.renderAction(action))}
+      <span class="hint">Stations 1-9 are the first nine on the dial; reorder them in STATIONS.</span>
+      <div class="footer">
+        <button @click=${() => this.shortcutMap?.resetBindings()}>RESET</button>
+        <button @click=${this.close}>CLOSE</button>
+      </div>
+    </div>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'shortcut-overlay': ShortcutOverlay;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+/** Segmented LCD spectrum bars. */
+@customElement('spectrum-bars')
+export class SpectrumBars extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      align-items: flex-end;
+      gap: 2px;
+      pointer-events: none;
+    }
+    .bar {
+      flex: 1;
+      background: repeating-linear-gradient(
+        to top,
+        #33ff33 0 2px,
+        transparent 2px 3px
+      );
+      box-shadow: 0 0 4px rgba(51, 255, 51, 0.4);
+    }
+  `;
+
+  /** Bar levels from 0 to 1. */
+  @property({ type: Array }) bars: number[] = [];
+
+  render() {
+    return this.bars.map((level) => html`<div
+      class="bar"
+      style=${styleMap({ height: `${Math.round(level * 100)}%` })}></div>`);
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'spectrum-bars': SpectrumBars;
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { Prompt } from '../types';
+
+export interface StationMove {
+  from: number;
+  to: number;
+}
+
+export interface StationEdit {
+  promptId: string;
+  text?: string;
+  color?: string;
+}
+
+/** Add, remove, rename, recolor and drag-reorder the stations on the dial. */
+@customElement('station-editor')
+export class StationEditor extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #33ff33;
+    }
+    ol {
+      list-style: none;
+      margin: 0;
+      padding: 0;
+      max-height: 260px;
+      overflow-y: auto;
+      border: 1px solid #555;
+      background: #000;
+    }
+    li {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 3px 6px;
+      border-top: 2px solid transparent;
+      border-bottom: 2px solid transparent;
+      &.active {
+        background: #1a1a1a;
+      }
+      &.drop-before {
+        border-top-color: #33ff33;
+      }
+      &.drop-after {
+        border-bottom-color: #33ff33;
+      }
+    }
+    .grip {
+      cursor: grab;
+      color: #555;
+    }
+    .freq {
+      width: 40px;
+      opacity: 0.6;
+    }
+    input[type='color'] {
+      width: 20px;
+      height: 20px;
+      padding: 0;
+      border: none;
+      background: none;
+      cursor: pointer;
+    }
+    input[type='text'] {
+      flex: 1;
+      min-width: 0;
+      font: inherit;
+      padding: 1px 4px;
+      background: transparent;
+      color: #33ff33;
+      border: 1px solid transparent;
+      outline: none;
+      &:focus {
+        border-color: #555;
+      }
+    }
+    button {
+      font: inherit;
+      padding: 2px 6px;
+      color: #33ff33;
+      background: #000;
+      border: 1px solid #555;
+      border-radius: 2px;
+      cursor: pointer;
+      &:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+    }
+  `;
+
+  @property({ type: Array }) prompts: Prompt[] = [];
+  @property({ type: String }) activePromptId = '';
+
+  @state() private dragIndex: number | null = null;
+  /** Insertion point while dragging, from 0 (before the first) to prompts.length (after the last). */
+  @state() private dropIndex: number | null = null;
+
+  private dispatch<T>(type: string, detail: T) {
+    (this as LitElement).dispatchEvent(new CustomEvent<T>(type, { detail }));
+  }
+
+  private handleTextKeyDown(e: KeyboardEvent, prompt: Prompt) {
+    const input = e.target as HTMLInputElement;
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      input.blur();
+    }
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      input.value = prompt.text;
+      input.blur();
+    }
+  }
+
+  private handleTextBlur(e: Event, prompt: Prompt) {
+    const input = e.target as HTMLInputElement;
+    const text = input.value.trim();
+    if (!text) {
+      input.value = prompt.text;
+      return;
+    }
+    if (text !== prompt.text) {
+      this.dispatch<StationEdit>('station-changed', { promptId: prompt.promptId, text });
+    }
+  }
+
+  private handleDragOver(e: DragEvent, index: number) {
+    e.preventDefault();
+    const row = e.currentTarget as HTMLElement;
+    const rect = row.getBoundingClientRect();
+    const isLowerHalf = e.clientY > rect.top + rect.height / 2;
+    this.dropIndex = isLowerHalf ? index + 1 : index;
+  }
+
+  private handleDrop(e: DragEvent) {
+    e.preventDefault();
+    const from = this.dragIndex;
+    const insertAt = this.dropIndex;
+    this.dragIndex = null;
+    this.dropIndex = null;
+    if (from === null || insertAt === null) return;
+    // Account for the dragged row being removed before it is inserted.
+    const to = from < insertAt ? insertAt - 1 : insertAt;
+    if (from !== to) this.dispatch<StationMove>('station-moved', { from, to });
+  }
+
+  private renderStation(prompt: Prompt, index: number) {
+    const classes = classMap({
+      active: prompt.promptId === this.activePromptId,
+      'drop-before': this.dropIndex === index,
+      'drop-after': this.dropIndex === this.prompts.length && index === this.prompts.length - 1,
+    });
+    return html`<li
+      class=${classes}
+      draggable="true"
+      @dragstart=${(e: DragEvent) => {
+        this.dragIndex = index;
+        e.dataTransfer?.setData('text/plain', String(index));
+      }}
+      @dragover=${(e: DragEvent) => this.handleDragOver(e, index)}
+      @dragend=${() => {
+        this.dragIndex = null;
+        this.dropIndex = null;
+      }}
+      @drop=${this.handleDrop}>
+      <span class="grip">⠿</span>
+      <span class="freq">${prompt.frequency.toFixed(1)}</span>
+      <input
+        type="color"
+        .value=${prompt.color}
+        @change=${(e: Event) => this.dispatch<StationEdit>('station-changed', {
+          promptId: prompt.promptId,
+          color: (e.target as HTMLInputElement).value,
+        })} />
+      <input
+        type="text"
+        spellcheck="false"
+        .value=${prompt.text}
+        @keydown=${(e: KeyboardEvent) => this.handleTextKeyDown(e, prompt)}
+        @blur=${(e: Event) => this.handleTextBlur(e, prompt)} />
+      <button
+        ?disabled=${this.prompts.length === 1}
+        @click=${() => this.dispatch<string>('station-removed', prompt.promptId)}>✕</button>
+    </li>`;
+  }
+
+  render() {
+    return html`
+      <ol>${this.prompts.map((prompt, i) => this.renderStation(prompt, i))}</ol>
+      <button @click=${() => this.dispatch<void>('station-added', undefined)}>+ ADD STATION</button>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'station-editor': StationEditor;
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement, svg } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+/** Degrees of rotation either side of centre. */
+const SWEEP = 135;
+/** Pixels of vertical drag for the full range. */
+const DRAG_RANGE = 150;
+
+/**
+ * Small rotary knob for the boombox front panel. Drag up/down or scroll to
+ * turn it, double-click to reset. Dispatches `value-changed` while turning.
+ */
+@customElement('tone-knob')
+export class ToneKnob extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 3px;
+      user-select: none;
+    }
+    svg {
+      width: 34px;
+      height: 34px;
+      cursor: ns-resize;
+      touch-action: none;
+      border-radius: 50%;
+      outline: none;
+    }
+    svg:focus-visible {
+      box-shadow: 0 0 0 2px #33ff33;
+    }
+    .label {
+      color: #ccc;
+      font-family: 'Helvetica', 'Arial', sans-serif;
+      font-size: 8px;
+      font-weight: bold;
+      letter-spacing: 1px;
+    }
+  `;
+
+  @property({ type: String }) label = '';
+  @property({ type: Number }) value = 0;
+  @property({ type: Number }) min = 0;
+  @property({ type: Number }) max = 1;
+  /** Value restored by double-click. */
+  @property({ type: Number }) defaultValue = 0;
+
+  private dragStartY = 0;
+  private dragStartValue = 0;
+
+  constructor() {
+    super();
+    this.handlePointerMove = this.handlePointerMove.bind(this);
+    this.handlePointerUp = this.handlePointerUp.bind(this);
+  }
+
+  private setValue(value: number) {
+    const clamped = Math.max(this.min, Math.min(this.max, value));
+    if (clamped === this.value) return;
+    this.value = clamped;
+    (this as LitElement).dispatchEvent(new CustomEvent<number>('value-changed', { detail: clamped }));
+  }
+
+  private handlePointerDown(e: PointerEvent) {
+    e.preventDefault();
+    this.dragStartY = e.clientY;
+    this.dragStartValue = this.value;
+    document.body.classList.add('dragging');
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp);
+  }
+
+  private handlePointerMove(e: PointerEvent) {
+    const delta = (this.dragStartY - e.clientY) / DRAG_RANGE;
+    this.setValue(this.dragStartValue + delta * (this.max - this.min));
+  }
+
+  private handlePointerUp() {
+    document.body.classList.remove('dragging');
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+  }
+
+  private handleWheel(e: WheelEvent) {
+    e.preventDefault();
+    this.setValue(this.value - Math.sign(e.deltaY) * (this.max - this.min) / 50);
+  }
+
+  private handleKeyDown(e: KeyboardEvent) {
+    const step = (this.max - this.min) / 20;
+    const steps: Record<string, number> = {
+      ArrowUp: step,
+      ArrowRight: step,
+      ArrowDown: -step,
+      ArrowLeft: -step,
+      PageUp: step * 4,
+      PageDown: -step * 4,
+    };
+    if (e.key in steps) {
+      this.setValue(this.value + steps[e.key]);
+    } else if (e.key === 'Home') {
+      this.setValue(this.min);
+    } else if (e.key === 'End') {
+      this.setValue(this.max);
+    } else {
+      return;
+    }
+    e.preventDefault();
+  }
+
+  render() {
+    const fraction = (this.value - this.min) / (this.max - this.min);
+    const rotation = -SWEEP + fraction * SWEEP * 2;
+    return html`
+      <svg
+        viewBox="0 0 40 40"
+        tabindex="0"
+        role="slider"
+        aria-label=${this.label}
+        aria-valuemin=${this.min}
+        aria-valuemax=${this.max}
+        aria-valuenow=${Number(this.value.toFixed(2))}
+        @keydown=${this.handleKeyDown}
+        @pointerdown=${this.handlePointerDown}
+        @wheel=${this.handleWheel}
+        @dblclick=${() => this.setValue(this.defaultValue)}>
+        ${svg`
+          <circle cx="20" cy="20" r="18" fill="#1a1a1a" stroke="#000" stroke-width="1.5" />
+          <circle cx="20" cy="20" r="14" fill="#333" />
+          <g transform="rotate(${rotation} 20 20)">
+            <rect x="19" y="6" width="2" height="8" rx="1" fill="#fff" />
+          </g>
+        `}
+      </svg>
+      <span class="label">${this.label}</span>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'tone-knob': ToneKnob;
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement, svg } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { MeterReading } from '../types';
+
+/** Scale shown on the meter face, in dB relative to 0 VU at -18 dBFS. */
+const SCALE_MIN = -20;
+const SCALE_MAX = 3;
+const REFERENCE_DBFS = -18;
+/** Needle angle either side of vertical. */
+const SWEEP = 50;
+
+/** Angle of the needle for a level in dBFS. */
+function angleFor(dbfs: number) {
+  const vu = Math.max(SCALE_MIN, Math.min(SCALE_MAX, dbfs - REFERENCE_DBFS));
+  return -SWEEP + (vu - SCALE_MIN) / (SCALE_MAX - SCALE_MIN) * SWEEP * 2;
+}
+
+/** Analog VU needle driven by a channel's RMS level, with a peak-hold lamp. */
+@customElement('vu-meter')
+export class VuMeter extends LitElement {
+  static styles = css`
+    :host {
+      display: block;
+      width: 56px;
+      height: 40px;
+    }
+    svg {
+      width: 100%;
+      height: 100%;
+    }
+    .needle {
+      transition: transform 0.1s ease-out;
+      transform-origin: 30px 38px;
+    }
+  `;
+
+  @property({ type: String }) label = '';
+  @property({ type: Object }) reading: MeterReading | null = null;
+
+  private renderScale() {
+    return [-20, -10, -5, 0, 3].map((vu) => {
+      const angle = angleFor(vu + REFERENCE_DBFS);
+      return svg`<line x1="30" y1="8" x2="30" y2="11"
+        stroke=${vu > 0 ? '#ff3333' : '#33ff33'} stroke-width="1"
+        transform="rotate(${angle} 30 38)" />`;
+    });
+  }
+
+  render() {
+    const rms = this.reading?.rms ?? -Infinity;
+    const isClipping = (this.reading?.peakHold ?? -Infinity) >= -0.5;
+    return html`<svg viewBox="0 0 60 42">
+      <rect x="1" y="1" width="58" height="40" rx="3" fill="#0a0a0a" stroke="#555" />
+      <path d="M 8.6 20 A 28 28 0 0 1 51.4 20" fill="none" stroke="#1f6f1f" stroke-width="1" />
+      ${this.renderScale()}
+      <line class="needle" x1="30" y1="38" x2="30" y2="10"
+        stroke="#33ff33" stroke-width="1.2"
+        style="transform: rotate(${angleFor(rms)}deg)" />
+      <circle cx="52" cy="34" r="2" fill=${isClipping ? '#ff3333' : '#331111'} />
+      <text x="6" y="37" fill="#33ff33" font-size="7" font-family="Courier New, monospace">${this.label}</text>
+    </svg>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'vu-meter': VuMeter;
+  }
+}
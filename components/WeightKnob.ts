@@ -32,6 +32,11 @@ export class WeightKnob extends LitElement {
       left: 0;
       width: 100%;
       height: 100%;
+      border-radius: 50%;
+      outline: none;
+    }
+    svg:focus-visible {
+      box-shadow: 0 0 0 2px #fff;
     }
     #halo {
       position: absolute;
@@ -92,6 +97,23 @@ export class WeightKnob extends LitElement {
     (this as LitElement).dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
   }
 
+  private handleKeyDown(e: KeyboardEvent) {
+    const steps: Record<string, number> = {
+      ArrowUp: 0.1,
+      ArrowRight: 0.1,
+      ArrowDown: -0.1,
+      ArrowLeft: -0.1,
+      PageUp: 0.5,
+      PageDown: -0.5,
+      Home: -2,
+      End: 2,
+    };
+    if (!(e.key in steps)) return;
+    e.preventDefault();
+    this.value = Math.max(0, Math.min(2, this.value + steps[e.key]));
+    (this as LitElement).dispatchEvent(new CustomEvent<number>('input', { detail: this.value }));
+  }
+
   private describeArc(
     centerX: number,
     centerY: number,
@@ -139,6 +161,13 @@ export class WeightKnob extends LitElement {
       <!-- SVG elements that move, separated to limit redraws -->
       <svg
         viewBox="0 0 80 80"
+        tabindex="0"
+        role="slider"
+        aria-label="Weight"
+        aria-valuemin="0"
+        aria-valuemax="2"
+        aria-valuenow=${Number(this.value.toFixed(2))}
+        @keydown=${this.handleKeyDown}
         @pointerdown=${this.handlePointerDown}
         @wheel=${this.handleWheel}>
         <g style=${dotStyle}>
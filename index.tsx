@@ -4,23 +4,37 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { PlaybackState, Prompt } from './types';
+import type { AlarmSettings, AnnouncerSettings, Beat, BufferHealth, ClockCountdown, ClockSettings, MasterSettings, MusicConfig, PlaybackState, Prompt, RecordingOptions, ScanSettings, ScheduledAudio, StaticSettings, StationList } from './types';
 import { GoogleGenAI, LiveMusicFilteredPrompt } from '@google/genai';
 import { PromptDjMidi } from './components/PromptDjMidi';
 import { ToastMessage } from './components/ToastMessage';
 import { LiveMusicHelper } from './utils/LiveMusicHelper';
+import { LocalMusicTransport } from './utils/LocalMusicTransport';
+import { GenAiMusicTransport, type MusicTransport } from './utils/MusicTransport';
 import { AudioAnalyser } from './utils/AudioAnalyser';
+import { BeatDetector } from './utils/BeatDetector';
+import { ClockRadio } from './utils/ClockRadio';
+import { dialFrequency, PresetStore, promptsFromStations } from './utils/PresetStore';
 import { RadioAnnouncer } from './utils/RadioAnnouncer';
-import { throttle } from './utils/throttle';
+import { RadioStatic } from './utils/RadioStatic';
+import { Recorder, downloadRecording } from './utils/Recorder';
 
 // FIX: Use `process.env.API_KEY` and remove `apiVersion` per coding guidelines.
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 const model = 'lyria-realtime-exp';
 
+// MUSIC_BACKEND=local plays procedural stand-in music without network access or an API key.
+const musicTransport: MusicTransport = process.env.MUSIC_BACKEND === 'local'
+  ? new LocalMusicTransport()
+  : new GenAiMusicTransport(ai, model);
+
 function main() {
-  const initialPrompts = buildInitialPrompts();
+  const presetStore = new PresetStore(DEFAULT_STATION_LIST);
+  const initialStations = presetStore.activeList.stations;
+  // In Radio mode, only the first station is active initially
+  const initialPrompts = promptsFromStations(initialStations);
 
-  const pdjMidi = new PromptDjMidi(initialPrompts);
+  const pdjMidi = new PromptDjMidi(initialPrompts, presetStore);
   // FIX: Cast to HTMLElement to satisfy appendChild's type requirement.
   document.body.appendChild(pdjMidi as unknown as Node);
 
@@ -28,47 +42,84 @@ function main() {
   // FIX: Cast to HTMLElement to satisfy appendChild's type requirement.
   document.body.appendChild(toastMessage as unknown as Node);
 
-  const liveMusicHelper = new LiveMusicHelper(ai, model);
+  const liveMusicHelper = new LiveMusicHelper(musicTransport);
   liveMusicHelper.setWeightedPrompts(initialPrompts);
 
   const audioAnalyser = new AudioAnalyser(liveMusicHelper.audioContext);
   liveMusicHelper.extraDestination = audioAnalyser.node;
+  const beatDetector = new BeatDetector(liveMusicHelper.audioContext.sampleRate);
 
   // Initialize Radio Announcer
   // Connect to audioAnalyser node so the speaker needles move when the DJ speaks
-  const radioAnnouncer = new RadioAnnouncer(ai, liveMusicHelper.audioContext, audioAnalyser.node);
+  const radioAnnouncer = new RadioAnnouncer(ai, liveMusicHelper.mixer, audioAnalyser.node);
   
   // Set initial station info (Station 0)
-  radioAnnouncer.onStationChange(DEFAULT_PROMPTS[0].text, '88.0');
+  radioAnnouncer.onStationChange(initialStations[0].text, initialStations[0].frequency.toFixed(1));
 
-  // Throttled handler for updating the music model to prevent socket flooding
-  const updateMusicModel = throttle((prompts: Map<string, Prompt>) => {
-    liveMusicHelper.setWeightedPrompts(prompts);
-  }, 500);
+  // Tuning static on its own channel of the mixer, only heard while the radio
+  // is on: playing, or loading as it does on a filtered station
+  const radioStatic = new RadioStatic(liveMusicHelper.mixer);
+  let staticLevel = 0;
+  let isRadioOn = false;
+  pdjMidi.staticSettings = radioStatic.settings;
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('static-changed', ((e: Event) => {
+    staticLevel = (e as CustomEvent<number>).detail;
+    radioStatic.setIntensity(isRadioOn ? staticLevel : 0);
+  }) as EventListener);
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('static-settings-changed', ((e: Event) => {
+    radioStatic.update((e as CustomEvent<Partial<StaticSettings>>).detail);
+    pdjMidi.staticSettings = radioStatic.settings;
+  }) as EventListener);
+
+  // Cassette deck recorder, fed by both the music and the DJ
+  const recorder = new Recorder(liveMusicHelper.audioContext);
+  liveMusicHelper.output.connect(recorder.musicInput);
+  radioAnnouncer.outputNode.connect(recorder.voiceInput);
+  let stationLabel = initialStations[0].text;
+
+  liveMusicHelper.addEventListener('audio-scheduled', ((e: Event) => {
+    recorder.captureMusic((e as CustomEvent<ScheduledAudio>).detail);
+  }));
+
+  radioAnnouncer.addEventListener('announcement-started', ((e: Event) => {
+    recorder.captureVoice((e as CustomEvent<ScheduledAudio>).detail);
+  }));
 
   // FIX: Cast to unknown first to fix TS error.
   (pdjMidi as unknown as HTMLElement).addEventListener('prompts-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<Map<string, Prompt>>;
     const prompts = customEvent.detail;
     
-    // 1. Update Music (Throttled)
-    updateMusicModel(prompts);
+    // 1. Update Music (already paced by the crossfader, so every update is sent)
+    liveMusicHelper.setWeightedPrompts(prompts);
+  }) as EventListener);
+
+  // Markers and announcements wait for a fade to land on its station.
+  (pdjMidi as unknown as HTMLElement).addEventListener('prompts-settled', ((e: Event) => {
+    const prompts = (e as CustomEvent<Map<string, Prompt>>).detail;
+
+    // Mark the station change on any take in progress
+    const audible = [...prompts.values()]
+      .filter((p) => p.weight > 0)
+      .sort((a, b) => b.weight - a.weight);
+    if (audible.length > 0) {
+      stationLabel = audible.map((p) => p.text).join(' + ');
+      recorder.addMarker(stationLabel);
+    }
 
     // 2. Update Announcer (Debounced internally)
-    for (const [id, prompt] of prompts) {
-      if (prompt.weight > 0) {
-        // Parse index from id "prompt-N" to calculate frequency
-        const parts = prompt.promptId.split('-');
-        if (parts.length === 2) {
-          const index = parseInt(parts[1], 10);
-          if (!isNaN(index)) {
-             const frequency = (88.0 + (index * 1.5)).toFixed(1);
-             radioAnnouncer.onStationChange(prompt.text, frequency);
-          }
-        }
-        break;
+    // In a mixer blend, announce the heaviest station.
+    let loudest: Prompt | null = null;
+    for (const prompt of prompts.values()) {
+      if (prompt.weight > 0 && (!loudest || prompt.weight > loudest.weight)) {
+        loudest = prompt;
       }
     }
+    if (loudest) {
+      radioAnnouncer.onStationChange(loudest.text, loudest.frequency.toFixed(1));
+    }
   }) as EventListener);
 
   // FIX: Cast to unknown first to fix TS error.
@@ -76,6 +127,88 @@ function main() {
     liveMusicHelper.playPause();
   }) as EventListener);
 
+  (pdjMidi as unknown as HTMLElement).addEventListener('volume-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<number>;
+    liveMusicHelper.setVolume(customEvent.detail);
+    pdjMidi.masterSettings = liveMusicHelper.master.settings;
+  }) as EventListener);
+
+  pdjMidi.masterSettings = liveMusicHelper.master.settings;
+  (pdjMidi as unknown as HTMLElement).addEventListener('master-settings-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<Partial<MasterSettings>>;
+    liveMusicHelper.master.update(customEvent.detail);
+    pdjMidi.masterSettings = liveMusicHelper.master.settings;
+  }) as EventListener);
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('record-toggle', (async (e: Event) => {
+    if (recorder.isRecording) {
+      pdjMidi.recording = false;
+      const recording = await recorder.stop();
+      if (recording) downloadRecording(recording);
+      return;
+    }
+    const customEvent = e as CustomEvent<RecordingOptions>;
+    try {
+      recorder.start(customEvent.detail);
+      recorder.addMarker(stationLabel);
+      pdjMidi.recording = true;
+    } catch (error) {
+      toastMessage.show(`Unable to record: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }) as EventListener);
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('music-config-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<MusicConfig>;
+    liveMusicHelper.setMusicGenerationConfig(customEvent.detail);
+  }) as EventListener);
+
+  pdjMidi.announcerSettings = radioAnnouncer.settings;
+  (pdjMidi as unknown as HTMLElement).addEventListener('announcer-settings-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<Partial<AnnouncerSettings>>;
+    radioAnnouncer.updateSettings(customEvent.detail);
+    pdjMidi.announcerSettings = radioAnnouncer.settings;
+  }) as EventListener);
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('scanning-changed', ((e: Event) => {
+    radioAnnouncer.setScan((e as CustomEvent<ScanSettings | null>).detail);
+  }) as EventListener);
+
+  // Sleep timer and alarm, restored from the last visit
+  const clockRadio = new ClockRadio();
+  pdjMidi.clockSettings = clockRadio.settings;
+  pdjMidi.countdown = clockRadio.countdown;
+
+  clockRadio.addEventListener('countdown', ((e: Event) => {
+    pdjMidi.countdown = (e as CustomEvent<ClockCountdown>).detail;
+  }));
+
+  clockRadio.addEventListener('sleep', ((e: Event) => {
+    // Also while loading or reconnecting, so the timer isn't lost before the music starts.
+    if (!liveMusicHelper.isIdle) liveMusicHelper.sleep((e as CustomEvent<number>).detail);
+  }));
+
+  clockRadio.addEventListener('alarm', ((e: Event) => {
+    const alarm = (e as CustomEvent<AlarmSettings>).detail;
+    if (alarm.station && !pdjMidi.tuneToStation(alarm.station)) {
+      toastMessage.show(`Alarm station "${alarm.station}" is not on the dial, waking up to the current one.`);
+    }
+    pdjMidi.showNotice('WAKE UP!', 5000);
+    if (liveMusicHelper.isIdle) liveMusicHelper.play(alarm.fadeIn);
+  }));
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('sleep-timer-set', ((e: Event) => {
+    clockRadio.setSleep((e as CustomEvent<number | null>).detail);
+  }) as EventListener);
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('clock-settings-changed', ((e: Event) => {
+    clockRadio.update((e as CustomEvent<Partial<ClockSettings>>).detail);
+    pdjMidi.clockSettings = clockRadio.settings;
+  }) as EventListener);
+
+  liveMusicHelper.addEventListener('context-reset', () => {
+    pdjMidi.showNotice('RESYNCING...');
+  });
+
   liveMusicHelper.addEventListener('playback-state-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<PlaybackState>;
     const playbackState = customEvent.detail;
@@ -83,11 +216,29 @@ function main() {
     
     const isPlaying = playbackState === 'playing';
     isPlaying ? audioAnalyser.start() : audioAnalyser.stop();
+    if (playbackState === 'stopped' || playbackState === 'paused') beatDetector.reset();
     
     // Update announcer state
     radioAnnouncer.setMusicPlaying(isPlaying);
+
+    isRadioOn = isPlaying || playbackState === 'loading';
+    radioStatic.setIntensity(isRadioOn ? staticLevel : 0);
+  }));
+
+  liveMusicHelper.addEventListener('buffer-health', ((e: Event) => {
+    const customEvent = e as CustomEvent<BufferHealth>;
+    pdjMidi.bufferHealth = customEvent.detail;
   }));
 
+  // Chunk counts for the buffer meter's tooltip; health updates with every
+  // scheduled chunk, drops and reorders come in between.
+  const showChunkStats = () => {
+    pdjMidi.chunkStats = liveMusicHelper.chunks.stats;
+  };
+  liveMusicHelper.addEventListener('buffer-health', showChunkStats);
+  liveMusicHelper.chunks.addEventListener('chunk-dropped', showChunkStats);
+  liveMusicHelper.chunks.addEventListener('chunk-reordered', showChunkStats);
+
   liveMusicHelper.addEventListener('filtered-prompt', ((e: Event) => {
     const customEvent = e as CustomEvent<LiveMusicFilteredPrompt>;
     const filteredPrompt = customEvent.detail;
@@ -111,49 +262,48 @@ function main() {
     pdjMidi.audioLevel = level;
   }));
 
-}
+  audioAnalyser.addEventListener('spectrum-changed', (e) => {
+    pdjMidi.spectrum = e.detail;
+  });
 
-function buildInitialPrompts() {
-  // Start on the first prompt (Station 1)
-  const prompts = new Map<string, Prompt>();
+  audioAnalyser.addEventListener('meter-changed', (e) => {
+    pdjMidi.meter = e.detail;
+  });
+
+  audioAnalyser.addEventListener('samples-received', (e) => {
+    beatDetector.process(e.detail);
+  });
+
+  beatDetector.addEventListener('beat', ((e: Event) => {
+    pdjMidi.kick((e as CustomEvent<Beat>).detail.strength);
+  }));
+
+  beatDetector.addEventListener('tempo-changed', ((e: Event) => {
+    pdjMidi.bpm = (e as CustomEvent<number | null>).detail;
+  }));
 
-  for (let i = 0; i < DEFAULT_PROMPTS.length; i++) {
-    const promptId = `prompt-${i}`;
-    const prompt = DEFAULT_PROMPTS[i];
-    const { text, color } = prompt;
-    
-    // In Radio mode, only the first one is active initially
-    const isActive = i === 0;
-
-    prompts.set(promptId, {
-      promptId,
-      text,
-      weight: isActive ? 1 : 0,
-      cc: i,
-      color,
-    });
-  }
-
-  return prompts;
 }
 
-const DEFAULT_PROMPTS = [
-  { color: '#9900ff', text: 'Bossa Nova' },
-  { color: '#5200ff', text: 'Chillwave' },
-  { color: '#ff25f6', text: 'Drum and Bass' },
-  { color: '#2af6de', text: 'Post Punk' },
-  { color: '#ffdd28', text: 'Shoegaze' },
-  { color: '#2af6de', text: 'Funk' },
-  { color: '#9900ff', text: 'Chiptune' },
-  { color: '#3dffab', text: 'Lush Strings' },
-  { color: '#d8ff3e', text: 'Sparkling Arpeggios' },
-  { color: '#d9b2ff', text: 'Staccato Rhythms' },
-  { color: '#3dffab', text: 'Punchy Kick' },
-  { color: '#ffdd28', text: 'Dubstep' },
-  { color: '#ff25f6', text: 'K Pop' },
-  { color: '#d8ff3e', text: 'Neo Soul' },
-  { color: '#5200ff', text: 'Trip Hop' },
-  { color: '#d9b2ff', text: 'Thrash' },
-];
+const DEFAULT_STATION_LIST: StationList = {
+  name: 'Default',
+  stations: [
+    { color: '#9900ff', text: 'Bossa Nova' },
+    { color: '#5200ff', text: 'Chillwave' },
+    { color: '#ff25f6', text: 'Drum and Bass' },
+    { color: '#2af6de', text: 'Post Punk' },
+    { color: '#ffdd28', text: 'Shoegaze' },
+    { color: '#2af6de', text: 'Funk' },
+    { color: '#9900ff', text: 'Chiptune' },
+    { color: '#3dffab', text: 'Lush Strings' },
+    { color: '#d8ff3e', text: 'Sparkling Arpeggios' },
+    { color: '#d9b2ff', text: 'Staccato Rhythms' },
+    { color: '#3dffab', text: 'Punchy Kick' },
+    { color: '#ffdd28', text: 'Dubstep' },
+    { color: '#ff25f6', text: 'K Pop' },
+    { color: '#d8ff3e', text: 'Neo Soul' },
+    { color: '#5200ff', text: 'Trip Hop' },
+    { color: '#d9b2ff', text: 'Thrash' },
+  ].map((station, i) => ({ ...station, cc: i, frequency: dialFrequency(i) })),
+};
 
 main();
\ No newline at end of file
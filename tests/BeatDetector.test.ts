@@ -0,0 +1,75 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import type { Beat } from '../types';
+import { BeatDetector, detectBeats } from '../utils/BeatDetector';
+
+const SAMPLE_RATE = 22050;
+
+/** A kick-like click track: decaying 60 Hz bursts over faint noise. */
+function clickTrack(bpm: number, seconds: number) {
+  const samples = new Float32Array(seconds * SAMPLE_RATE);
+  const period = 60 / bpm * SAMPLE_RATE;
+  const clickLength = Math.round(0.05 * SAMPLE_RATE);
+  let seed = 1;
+  const noise = () => (seed = (seed * 16807) % 2147483647) / 2147483647 - 0.5;
+  for (let i = 0; i < samples.length; i++) samples[i] = noise() * 0.01;
+  for (let start = 0; start < samples.length; start += period) {
+    const offset = Math.round(start);
+    for (let i = 0; i < clickLength && offset + i < samples.length; i++) {
+      samples[offset + i] += Math.sin(2 * Math.PI * 60 * i / SAMPLE_RATE) * Math.exp(-i / (0.01 * SAMPLE_RATE)) * 0.8;
+    }
+  }
+  return samples;
+}
+
+describe('BeatDetector', () => {
+  it.each([90, 120, 140])('estimates %i BPM from a click track', (bpm) => {
+    const { bpm: estimate } = detectBeats(clickTrack(bpm, 10), SAMPLE_RATE);
+    expect(estimate).not.toBeNull();
+    expect(Math.abs(estimate! - bpm)).toBeLessThan(2);
+  });
+
+  it('reports a beat on every click', () => {
+    const bpm = 120;
+    const { beats } = detectBeats(clickTrack(bpm, 10), SAMPLE_RATE);
+    const period = 60 / bpm;
+    // The first click has no history to stand out from.
+    expect(beats.length).toBeGreaterThanOrEqual(18);
+    expect(beats.length).toBeLessThanOrEqual(20);
+    for (const beat of beats) {
+      const distance = Math.abs(beat.time / period - Math.round(beat.time / period)) * period;
+      expect(distance).toBeLessThan(0.03);
+    }
+  });
+
+  it('dispatches beat and tempo events as audio streams in', () => {
+    const detector = new BeatDetector(SAMPLE_RATE);
+    const beats: Beat[] = [];
+    const tempos: (number | null)[] = [];
+    detector.addEventListener('beat', (e) => beats.push((e as CustomEvent<Beat>).detail));
+    detector.addEventListener('tempo-changed', (e) => tempos.push((e as CustomEvent<number | null>).detail));
+
+    // Blocks of 1024, as the analyser delivers them.
+    const track = clickTrack(100, 10);
+    for (let i = 0; i < track.length; i += 1024) detector.process(track.subarray(i, i + 1024));
+
+    expect(beats.length).toBeGreaterThan(12);
+    expect(Math.abs(tempos.at(-1)! - 100)).toBeLessThan(2);
+    // Beats after the tempo settled carry it.
+    expect(Math.abs(beats.at(-1)!.bpm! - 100)).toBeLessThan(2);
+
+    detector.reset();
+    expect(detector.bpm).toBeNull();
+    expect(tempos.at(-1)).toBeNull();
+  });
+
+  it('finds no beats in silence', () => {
+    const { beats, bpm } = detectBeats(new Float32Array(5 * SAMPLE_RATE), SAMPLE_RATE);
+    expect(beats).toHaveLength(0);
+    expect(bpm).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ChunkDrop } from '../types';
+import { ChunkQueue } from '../utils/ChunkQueue';
+import { MUSIC_PCM } from '../utils/pcm';
+import { silentChunk } from './fakes/transport';
+
+/** Lets the decodes, which resolve on the main thread in Node, settle. */
+const settle = () => new Promise((resolve) => setTimeout(resolve));
+
+describe('ChunkQueue', () => {
+  let played: number[];
+  let drops: ChunkDrop[];
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    played = [];
+    drops = [];
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function createQueue(onChunk: (sequence: number) => void) {
+    const queue = new ChunkQueue(MUSIC_PCM, MUSIC_PCM.sampleRate, (_, sequence) => onChunk(sequence));
+    queue.addEventListener('chunk-dropped', (e) => drops.push((e as CustomEvent<ChunkDrop>).detail));
+    return queue;
+  }
+
+  it('plays chunks in the order they arrived', async () => {
+    const queue = createQueue((sequence) => played.push(sequence));
+    queue.push([silentChunk(0.1), silentChunk(0.1)]);
+    queue.push([silentChunk(0.1)]);
+    await settle();
+    expect(played).toEqual([0, 1, 2]);
+    expect(queue.stats).toMatchObject({ received: 3, played: 3, dropped: 0, gaps: 0 });
+  });
+
+  it('skips empty chunks and counts the gap they leave', async () => {
+    const queue = createQueue((sequence) => played.push(sequence));
+    queue.push([silentChunk(0.1), { mimeType: 'audio/pcm' }, silentChunk(0.1)]);
+    await settle();
+    expect(played).toEqual([0, 2]);
+    expect(drops.map((drop) => drop.reason)).toEqual(['empty']);
+    expect(queue.stats).toMatchObject({ played: 2, dropped: 1, gaps: 1 });
+  });
+
+  it('drops a chunk that playback throws on and keeps draining', async () => {
+    const queue = createQueue((sequence) => {
+      if (sequence === 1) throw new Error('bad buffer');
+      played.push(sequence);
+    });
+    queue.push([silentChunk(0.1), silentChunk(0.1), silentChunk(0.1)]);
+    await settle();
+
+    expect(played).toEqual([0, 2]);
+    expect(drops).toMatchObject([{ sequence: 1, count: 1, reason: 'play-error' }]);
+    expect(queue.stats).toMatchObject({ received: 3, played: 2, dropped: 1 });
+  });
+
+  it('drops chunks still decoding when flushed', async () => {
+    const queue = createQueue((sequence) => played.push(sequence));
+    queue.push([silentChunk(0.1), silentChunk(0.1)]);
+    queue.flush();
+    await settle();
+    expect(played).toEqual([]);
+    expect(drops).toMatchObject([{ sequence: 0, count: 2, reason: 'flushed' }]);
+  });
+});
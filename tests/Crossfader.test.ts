@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { Crossfader, FRAME_INTERVAL, type Weights } from '../utils/Crossfader';
+
+const JAZZ: Weights = new Map([['jazz', 1], ['funk', 0]]);
+const FUNK: Weights = new Map([['jazz', 0], ['funk', 1]]);
+
+describe('Crossfader', () => {
+  let frames: { weights: Weights; settled: boolean }[];
+  let crossfader: Crossfader;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'performance'] });
+    frames = [];
+    crossfader = new Crossfader((weights, settled) => frames.push({ weights, settled }), {
+      duration: 1000,
+      curve: 'linear',
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('only settles on the last frame of a fade', async () => {
+    crossfader.fadeTo(JAZZ, FUNK);
+    await vi.advanceTimersByTimeAsync(2000);
+
+    expect(frames.length).toBeGreaterThan(2);
+    expect(frames.slice(0, -1).every((frame) => !frame.settled)).toBe(true);
+    expect(frames.at(-1)).toEqual({ weights: FUNK, settled: true });
+  });
+
+  it('settles straight away on a direct update', async () => {
+    crossfader.set(JAZZ);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(frames).toEqual([{ weights: JAZZ, settled: true }]);
+  });
+
+  it('coalesces updates that arrive faster than the frame rate', async () => {
+    crossfader.set(JAZZ);
+    await vi.advanceTimersByTimeAsync(0);
+    crossfader.set(FUNK);
+    crossfader.set(JAZZ);
+    await vi.advanceTimersByTimeAsync(FRAME_INTERVAL);
+    expect(frames.map((frame) => frame.weights)).toEqual([JAZZ, JAZZ]);
+  });
+
+  it('drops a fade that is cancelled', async () => {
+    crossfader.fadeTo(JAZZ, FUNK);
+    await vi.advanceTimersByTimeAsync(0);
+    crossfader.cancel();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(frames).toHaveLength(1);
+    expect(frames[0].settled).toBe(false);
+  });
+});
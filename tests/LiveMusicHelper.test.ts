@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { BufferHealth, PlaybackState, Prompt } from '../types';
+import { DEFAULT_BACKOFF_POLICY } from '../utils/backoff';
+import { LiveMusicHelper } from '../utils/LiveMusicHelper';
+import { FakeAudioContext, FakeGainNode } from './fakes/audio';
+import { FakeMusicTransport, silentChunk } from './fakes/transport';
+
+const PROMPTS = new Map<string, Prompt>([
+  ['jazz', { promptId: 'jazz', text: 'Jazz', weight: 1, cc: 0, color: '#fff', frequency: 88.1 }],
+]);
+
+const STATIONS = new Map<string, Prompt>([
+  ['jazz', { promptId: 'jazz', text: 'Jazz', weight: 0, cc: 0, color: '#fff', frequency: 88.1 }],
+  ['funk', { promptId: 'funk', text: 'Funk', weight: 1, cc: 1, color: '#fff', frequency: 90.3 }],
+]);
+
+describe('LiveMusicHelper', () => {
+  let context: FakeAudioContext;
+  let transport: FakeMusicTransport;
+  let helper: LiveMusicHelper;
+  let states: PlaybackState[];
+  let health: BufferHealth | null;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // The fake context has no AudioWorklet, so the helper schedules source nodes.
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    context = new FakeAudioContext();
+    transport = new FakeMusicTransport();
+    helper = new LiveMusicHelper(transport, DEFAULT_BACKOFF_POLICY, context.asAudioContext);
+    states = [];
+    health = null;
+    helper.addEventListener('playback-state-changed', (e) => states.push((e as CustomEvent<PlaybackState>).detail));
+    helper.addEventListener('buffer-health', (e) => health = (e as CustomEvent<BufferHealth>).detail);
+    helper.setWeightedPrompts(PROMPTS);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  async function play() {
+    const playing = helper.play();
+    await vi.advanceTimersByTimeAsync(250);
+    await playing;
+  }
+
+  /** Lets queued decodes settle without moving the clock. */
+  const settle = () => vi.advanceTimersByTimeAsync(0);
+
+  it('goes from stopped to loading to playing to paused', async () => {
+    await play();
+    expect(states).toEqual(['loading']);
+    expect(transport.session!.calls).toContain('play');
+
+    transport.session!.sendAudio(silentChunk(2));
+    await settle();
+    // Playing starts once the lead has been built.
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(states).toEqual(['loading', 'playing']);
+
+    helper.pause();
+    expect(states).toEqual(['loading', 'playing', 'paused']);
+    expect(transport.session!.calls).toContain('pause');
+  });
+
+  it('schedules chunks back to back after the initial lead', async () => {
+    await play();
+    context.currentTime = 1;
+    transport.session!.sendAudio(silentChunk(2), silentChunk(2));
+    await settle();
+
+    const [first, second] = context.startedSources;
+    // About the 2s initial lead; the first arrival already nudges the target down.
+    expect(first.startTime).toBeCloseTo(3, 1);
+    expect(second.startTime).toBeCloseTo(first.startTime! + 2);
+    expect(health!.lead).toBeCloseTo(second.startTime! + 2 - 1);
+
+    // Only the first chunk of a run fades in.
+    const fadeIn = (node: FakeGainNode) => node.gain.events.find((e) => e.type === 'set' && e.value === 0 && e.time < 4);
+    expect(fadeIn([...first.outputs][0] as FakeGainNode)).toBeDefined();
+    expect([...second.outputs][0] as FakeGainNode).toBeInstanceOf(FakeGainNode);
+    expect(fadeIn([...second.outputs][0] as FakeGainNode)).toBeUndefined();
+  });
+
+  it('rebuilds a longer lead and fades in after an underrun', async () => {
+    await play();
+    transport.session!.sendAudio(silentChunk(2));
+    await settle();
+    await vi.advanceTimersByTimeAsync(2000);
+    const targetBefore = health!.target;
+
+    // The chunk ends at 4s; the next one turns up late.
+    context.advance(5);
+    transport.session!.sendAudio(silentChunk(2));
+    await settle();
+
+    expect(states.at(-1)).toBe('loading');
+    expect(health!.underruns).toBe(1);
+    expect(health!.target).toBeGreaterThan(targetBefore);
+    const late = context.startedSources[1];
+    expect(late.startTime).toBeCloseTo(5 + health!.target);
+    const gain = ([...late.outputs][0] as FakeGainNode).gain;
+    expect(gain.events[0]).toEqual({ type: 'set', value: 0, time: late.startTime });
+
+    await vi.advanceTimersByTimeAsync(health!.target * 1000);
+    expect(states.at(-1)).toBe('playing');
+  });
+
+  it('ignores audio while paused', async () => {
+    await play();
+    helper.pause();
+    transport.session!.sendAudio(silentChunk(2));
+    await settle();
+    expect(context.startedSources).toHaveLength(0);
+    expect(helper.chunks.stats).toMatchObject({ received: 1, played: 0, dropped: 1 });
+  });
+
+  it('keeps playing under the static when tuned to a filtered station', async () => {
+    const errors: string[] = [];
+    helper.addEventListener('error', (e) => errors.push((e as CustomEvent<string>).detail));
+    await play();
+    transport.session!.send({ filteredPrompt: { text: 'Funk', filteredReason: 'Blocked' } });
+
+    helper.setWeightedPrompts(STATIONS);
+    await vi.advanceTimersByTimeAsync(250);
+
+    expect(errors).toEqual([]);
+    expect(states).not.toContain('paused');
+    expect(transport.session!.calls.filter((call) => call === 'setWeightedPrompts')).toHaveLength(1);
+  });
+
+  it('still pauses when every station is turned down', async () => {
+    const errors: string[] = [];
+    helper.addEventListener('error', (e) => errors.push((e as CustomEvent<string>).detail));
+    await play();
+
+    helper.setWeightedPrompts(new Map([['jazz', { ...PROMPTS.get('jazz')!, weight: 0 }]]));
+    await vi.advanceTimersByTimeAsync(250);
+
+    expect(errors).toEqual(['There needs to be one active prompt to play.']);
+    expect(states.at(-1)).toBe('paused');
+  });
+
+  it('keeps a sleep timer set while loading', async () => {
+    const playing = helper.play(5);
+    helper.sleep(10);
+    await vi.advanceTimersByTimeAsync(250);
+    await playing;
+
+    const music = helper.output as unknown as FakeGainNode;
+    expect(music.gain.events.at(-1)).toMatchObject({ type: 'linear', value: 0 });
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(states.at(-1)).toBe('paused');
+  });
+
+  it('sends a config only when its values change', async () => {
+    const configCalls = () => transport.session!.calls.filter((call) => call === 'setMusicGenerationConfig');
+    helper.setMusicGenerationConfig({ bpm: 100, density: 0.5 });
+    await play();
+    expect(configCalls()).toHaveLength(1);
+
+    helper.pause();
+    helper.setMusicGenerationConfig({ density: 0.5, bpm: 100 });
+    await vi.advanceTimersByTimeAsync(250);
+    await play();
+    expect(configCalls()).toHaveLength(1);
+
+    helper.setMusicGenerationConfig({ bpm: 100, density: 0.6 });
+    await vi.advanceTimersByTimeAsync(250);
+    expect(configCalls()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LiveMusicFilteredPrompt } from '@google/genai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { PlaybackState, Prompt } from '../types';
+import { DEFAULT_BACKOFF_POLICY } from '../utils/backoff';
+import { LiveMusicHelper } from '../utils/LiveMusicHelper';
+import { LocalMusicTransport } from '../utils/LocalMusicTransport';
+import { FakeAudioContext } from './fakes/audio';
+
+const PROMPTS = new Map<string, Prompt>([
+  ['funk', { promptId: 'funk', text: 'Funk', weight: 1, cc: 0, color: '#fff', frequency: 88.1 }],
+  ['polka', { promptId: 'polka', text: 'Polka', weight: 0.5, cc: 1, color: '#fff', frequency: 90.3 }],
+]);
+
+describe('LiveMusicHelper on the local backend', () => {
+  let context: FakeAudioContext;
+  let helper: LiveMusicHelper;
+  let states: PlaybackState[];
+  let filtered: string[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    context = new FakeAudioContext();
+    const transport = new LocalMusicTransport({ chunkSeconds: 1, leadChunks: 2, blockedWords: ['polka'] });
+    helper = new LiveMusicHelper(transport, DEFAULT_BACKOFF_POLICY, context.asAudioContext);
+    states = [];
+    filtered = [];
+    helper.addEventListener('playback-state-changed', (e) => states.push((e as CustomEvent<PlaybackState>).detail));
+    helper.addEventListener('filtered-prompt', (e) => filtered.push((e as CustomEvent<LiveMusicFilteredPrompt>).detail.text!));
+    helper.setWeightedPrompts(PROMPTS);
+  });
+
+  afterEach(() => {
+    helper.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  async function play() {
+    const playing = helper.play();
+    await vi.advanceTimersByTimeAsync(250);
+    await playing;
+  }
+
+  it('plays generated audio and paces it at real time', async () => {
+    await play();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(context.startedSources).toHaveLength(2);
+    const samples = context.startedSources[0].buffer!.getChannelData(0);
+    expect(samples.some((sample) => Math.abs(sample) > 0.01)).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(states).toEqual(['loading', 'playing']);
+    expect(context.startedSources).toHaveLength(4);
+    expect(helper.chunks.stats).toMatchObject({ received: 4, played: 4, dropped: 0 });
+  });
+
+  it('reports prompts the backend blocks', async () => {
+    await play();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(filtered).toEqual(['Polka']);
+  });
+
+  it('stops sending audio while paused', async () => {
+    await play();
+    await vi.advanceTimersByTimeAsync(0);
+    helper.pause();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(context.startedSources).toHaveLength(2);
+    expect(states.at(-1)).toBe('paused');
+  });
+});
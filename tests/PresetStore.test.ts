@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { StationList } from '../types';
+import { parseStationPack, PresetStore } from '../utils/PresetStore';
+
+const DEFAULT_LIST: StationList = {
+  name: 'Default',
+  stations: [{ text: 'Jazz', color: '#ff25f6', cc: 0, frequency: 88.1 }],
+};
+
+const pack = (changes: Record<string, unknown>) => JSON.stringify({
+  format: 'lyria-boombox-stations',
+  version: 1,
+  name: 'Late Night',
+  stations: [{ text: 'Lo-Fi', color: '#2af6de', cc: 1, frequency: 91.5 }],
+  ...changes,
+});
+
+describe('parseStationPack', () => {
+  it('reads a version 1 pack', () => {
+    expect(parseStationPack(pack({}))).toEqual({
+      name: 'Late Night',
+      stations: [{ text: 'Lo-Fi', color: '#2af6de', cc: 1, frequency: 91.5 }],
+    });
+  });
+
+  it.each([0, -1, 1.5, 2, '1', null])('rejects version %s', (version) => {
+    expect(() => parseStationPack(pack({ version }))).toThrow(/Unsupported station pack version/);
+  });
+
+  it('says which station is wrong', () => {
+    const stations = [{ text: 'Lo-Fi', color: 'pink', cc: 1, frequency: 91.5 }];
+    expect(() => parseStationPack(pack({ stations }))).toThrow('Station 1 "color" must be a hex color like #ff25f6.');
+  });
+});
+
+describe('PresetStore', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('restores the saved lists', () => {
+    const saved = new PresetStore(DEFAULT_LIST);
+    saved.importList(pack({}));
+    saved.setActive('Late Night');
+
+    const restored = new PresetStore(DEFAULT_LIST);
+    expect(restored.lists.map((list) => list.name)).toEqual(['Default', 'Late Night']);
+    expect(restored.activeList.name).toBe('Late Night');
+  });
+
+  it.each([
+    ['not JSON', '{'],
+    ['not an object', '42'],
+    ['without lists', '{"active":"Default"}'],
+    ['with lists that are not lists', '{"active":"Default","lists":"Jazz"}'],
+    ['with a list without stations', '{"active":"Broken","lists":[{"name":"Broken"}]}'],
+  ])('falls back to the default list when storage is %s', (_, raw) => {
+    localStorage.setItem('boombox-presets', raw);
+    const store = new PresetStore(DEFAULT_LIST);
+    expect(store.lists).toEqual([DEFAULT_LIST]);
+    expect(store.activeList).toEqual(DEFAULT_LIST);
+  });
+
+  it('keeps the stored lists that are intact', () => {
+    localStorage.setItem('boombox-presets', JSON.stringify({
+      active: 'Broken',
+      lists: [{ name: 'Broken', stations: [{ text: '' }] }, DEFAULT_LIST],
+    }));
+    const store = new PresetStore(DEFAULT_LIST);
+    expect(store.lists).toEqual([DEFAULT_LIST]);
+    expect(store.activeList).toEqual(DEFAULT_LIST);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { ScheduledAudio } from '../types';
+import { MixerBus } from '../utils/MixerBus';
+import { DEFAULT_ANNOUNCER_SETTINGS, RadioAnnouncer } from '../utils/RadioAnnouncer';
+import { FakeAudioContext } from './fakes/audio';
+import { FakeGenAI } from './fakes/genai';
+
+const { debounce, delay } = DEFAULT_ANNOUNCER_SETTINGS;
+
+describe('RadioAnnouncer', () => {
+  let context: FakeAudioContext;
+  let ai: FakeGenAI;
+  let announcer: RadioAnnouncer;
+  let started: ScheduledAudio[];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    context = new FakeAudioContext();
+    ai = new FakeGenAI();
+    const mixer = new MixerBus(context.asAudioContext);
+    announcer = new RadioAnnouncer(ai.asGoogleGenAI, mixer, context.destination as unknown as AudioNode);
+    started = [];
+    announcer.addEventListener('announcement-started', (e) => started.push((e as CustomEvent<ScheduledAudio>).detail));
+    announcer.setMusicPlaying(true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** Answers the script request, then the speech request it leads to. */
+  async function generate() {
+    ai.respondAll();
+    await vi.advanceTimersByTimeAsync(0);
+    ai.respondAll();
+    await vi.advanceTimersByTimeAsync(0);
+  }
+
+  it('only generates for the station the dial stops on', async () => {
+    announcer.onStationChange('Jazz', '88.1');
+    await vi.advanceTimersByTimeAsync(debounce / 2);
+    announcer.onStationChange('Funk', '90.3');
+    await vi.advanceTimersByTimeAsync(debounce / 2);
+    announcer.onStationChange('Techno', '92.5');
+    await vi.advanceTimersByTimeAsync(debounce);
+
+    expect(ai.scriptPrompts).toHaveLength(1);
+    expect(ai.scriptPrompts[0]).toContain('Techno');
+
+    await generate();
+    await vi.advanceTimersByTimeAsync(delay * 1000);
+    expect(started).toHaveLength(1);
+    expect(context.startedSources).toHaveLength(1);
+  });
+
+  it('drops an announcement still generating when the station changes', async () => {
+    announcer.onStationChange('Jazz', '88.1');
+    await vi.advanceTimersByTimeAsync(debounce);
+    expect(ai.scriptPrompts).toHaveLength(1);
+
+    announcer.onStationChange('Funk', '90.3');
+    // Jazz's script arrives after the change and must not go on to speech.
+    await generate();
+    expect(ai.calls).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(debounce);
+    await generate();
+    await vi.advanceTimersByTimeAsync(delay * 1000);
+
+    expect(ai.scriptPrompts.map((prompt) => prompt.includes('Funk'))).toEqual([false, true]);
+    expect(started).toHaveLength(1);
+  });
+
+  it('stops the announcement on air when switched off', async () => {
+    announcer.onStationChange('Jazz', '88.1');
+    await vi.advanceTimersByTimeAsync(debounce);
+    await generate();
+    await vi.advanceTimersByTimeAsync(delay * 1000);
+    const [onAir] = context.startedSources;
+    expect(onAir.stopped).toBe(false);
+
+    announcer.updateSettings({ enabled: false });
+    expect(onAir.stopped).toBe(true);
+  });
+
+  it('reports the cut length of an announcement that runs too long', async () => {
+    ai.speechSeconds = DEFAULT_ANNOUNCER_SETTINGS.maxLength + 3;
+    announcer.onStationChange('Jazz', '88.1');
+    await vi.advanceTimersByTimeAsync(debounce);
+    await generate();
+    await vi.advanceTimersByTimeAsync(delay * 1000);
+
+    expect(started[0].buffer.duration).toBeCloseTo(DEFAULT_ANNOUNCER_SETTINGS.maxLength + 3);
+    expect(started[0].duration).toBe(DEFAULT_ANNOUNCER_SETTINGS.maxLength);
+    expect(context.startedSources[0].playLength).toBe(DEFAULT_ANNOUNCER_SETTINGS.maxLength);
+  });
+
+  it('does not announce while the music is off', async () => {
+    announcer.setMusicPlaying(false);
+    announcer.onStationChange('Jazz', '88.1');
+    await vi.advanceTimersByTimeAsync(debounce);
+    await generate();
+    await vi.advanceTimersByTimeAsync(delay * 1000);
+    expect(started).toHaveLength(0);
+  });
+
+  it('does not repeat a played announcement when the music resumes', async () => {
+    announcer.onStationChange('Jazz', '88.1');
+    await vi.advanceTimersByTimeAsync(debounce);
+    await generate();
+    await vi.advanceTimersByTimeAsync(delay * 1000);
+    expect(started).toHaveLength(1);
+
+    // A pause and play, or an underrun going back through loading.
+    announcer.setMusicPlaying(false);
+    announcer.setMusicPlaying(true);
+    await generate();
+    await vi.advanceTimersByTimeAsync(delay * 1000);
+    expect(started).toHaveLength(1);
+    expect(context.startedSources).toHaveLength(1);
+  });
+});
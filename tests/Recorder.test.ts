@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { Recorder } from '../utils/Recorder';
+import { FakeAudioContext } from './fakes/audio';
+
+const SAMPLE_RATE = 8000;
+
+function constantBuffer(context: FakeAudioContext, seconds: number, value: number) {
+  const buffer = context.createBuffer(1, seconds * SAMPLE_RATE, SAMPLE_RATE);
+  buffer.getChannelData(0).fill(value);
+  return buffer as unknown as AudioBuffer;
+}
+
+async function wavSamples(blob: Blob) {
+  const view = new DataView(await blob.arrayBuffer());
+  const frames = (view.byteLength - 44) / 4;
+  return Array.from({ length: frames }, (_, i) => view.getInt16(44 + i * 4, true) / 32768);
+}
+
+describe('Recorder WAV takes', () => {
+  it('trims and fades an announcement that was cut on air', async () => {
+    const context = new FakeAudioContext({ sampleRate: SAMPLE_RATE });
+    const recorder = new Recorder(context.asAudioContext);
+    recorder.start({ format: 'wav', includeVoice: true });
+    recorder.captureMusic({ buffer: constantBuffer(context, 1, 0), startTime: 0 });
+    recorder.captureVoice({ buffer: constantBuffer(context, 4, 0.5), startTime: 0, duration: 2, fadeOut: 0.5 });
+
+    const samples = await wavSamples((await recorder.stop())!.audio);
+    expect(samples).toHaveLength(2 * SAMPLE_RATE);
+    expect(samples[SAMPLE_RATE]).toBeCloseTo(0.5, 3);
+    // Halfway through the fade-out, at 1.75s.
+    expect(samples[1.75 * SAMPLE_RATE]).toBeCloseTo(0.25, 2);
+    expect(Math.abs(samples.at(-1)!)).toBeLessThan(0.01);
+  });
+
+  it('keeps announcements that played in full', async () => {
+    const context = new FakeAudioContext({ sampleRate: SAMPLE_RATE });
+    const recorder = new Recorder(context.asAudioContext);
+    recorder.start({ format: 'wav', includeVoice: true });
+    recorder.captureVoice({ buffer: constantBuffer(context, 3, 0.5), startTime: 0 });
+
+    const samples = await wavSamples((await recorder.stop())!.audio);
+    expect(samples).toHaveLength(3 * SAMPLE_RATE);
+    expect(samples.at(-1)).toBeCloseTo(0.5, 3);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { createBlob, decode, encode } from '../utils/audio';
+
+describe('decode', () => {
+  it('reverses encode for every byte value', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+
+  it('decodes an empty string to no bytes', () => {
+    expect(decode('')).toEqual(new Uint8Array(0));
+  });
+});
+
+describe('createBlob', () => {
+  it('labels the data as 16-bit PCM at the given rate', () => {
+    expect(createBlob(new Float32Array(4)).mimeType).toBe('audio/pcm;rate=16000');
+    expect(createBlob(new Float32Array(4), 24000).mimeType).toBe('audio/pcm;rate=24000');
+  });
+
+  it('encodes samples as little-endian int16 within the dither', () => {
+    const samples = Float32Array.from([0, 0.5, -0.5, 1, -1, 2, -2]);
+    const bytes = decode(createBlob(samples).data!);
+    const view = new DataView(bytes.buffer);
+    const decoded = Array.from(samples, (_, i) => view.getInt16(i * 2, true));
+    const expected = [0, 16384, -16384, 32767, -32768, 32767, -32768];
+    decoded.forEach((value, i) => expect(Math.abs(value - expected[i])).toBeLessThanOrEqual(2));
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// A scripted stand-in for the parts of Web Audio the app uses. Nothing is
+// rendered: the clock only moves through advance(), and source nodes record
+// when they were started so tests can check the schedule.
+
+export interface ParamEvent {
+  type: 'set' | 'linear' | 'exponential' | 'target';
+  value: number;
+  time: number;
+}
+
+export class FakeAudioParam {
+  value: number;
+  events: ParamEvent[] = [];
+
+  constructor(value: number) {
+    this.value = value;
+  }
+
+  setValueAtTime(value: number, time: number) {
+    this.events.push({ type: 'set', value, time });
+    return this;
+  }
+
+  linearRampToValueAtTime(value: number, time: number) {
+    this.events.push({ type: 'linear', value, time });
+    return this;
+  }
+
+  exponentialRampToValueAtTime(value: number, time: number) {
+    this.events.push({ type: 'exponential', value, time });
+    return this;
+  }
+
+  setTargetAtTime(value: number, time: number) {
+    this.events.push({ type: 'target', value, time });
+    return this;
+  }
+
+  cancelScheduledValues(time: number) {
+    this.events = this.events.filter((event) => event.time < time);
+    return this;
+  }
+}
+
+export class FakeAudioNode {
+  readonly context: FakeAudioContext;
+  readonly outputs = new Set<FakeAudioNode>();
+
+  constructor(context: FakeAudioContext) {
+    this.context = context;
+  }
+
+  connect<T extends FakeAudioNode>(destination: T): T {
+    this.outputs.add(destination);
+    return destination;
+  }
+
+  disconnect(destination?: FakeAudioNode) {
+    if (destination) {
+      this.outputs.delete(destination);
+    } else {
+      this.outputs.clear();
+    }
+  }
+}
+
+export class FakeGainNode extends FakeAudioNode {
+  readonly gain = new FakeAudioParam(1);
+}
+
+export class FakeBiquadFilterNode extends FakeAudioNode {
+  type = 'lowpass';
+  readonly frequency = new FakeAudioParam(350);
+  readonly Q = new FakeAudioParam(1);
+  readonly gain = new FakeAudioParam(0);
+}
+
+export class FakeDynamicsCompressorNode extends FakeAudioNode {
+  readonly threshold = new FakeAudioParam(-24);
+  readonly knee = new FakeAudioParam(30);
+  readonly ratio = new FakeAudioParam(12);
+  readonly attack = new FakeAudioParam(0.003);
+  readonly release = new FakeAudioParam(0.25);
+}
+
+export class FakeAudioBuffer {
+  readonly sampleRate: number;
+  readonly length: number;
+  private channels: Float32Array[];
+
+  constructor(numberOfChannels: number, length: number, sampleRate: number) {
+    this.sampleRate = sampleRate;
+    this.length = length;
+    this.channels = Array.from({ length: numberOfChannels }, () => new Float32Array(length));
+  }
+
+  get numberOfChannels() {
+    return this.channels.length;
+  }
+
+  get duration() {
+    return this.length / this.sampleRate;
+  }
+
+  getChannelData(channel: number) {
+    return this.channels[channel];
+  }
+
+  copyToChannel(source: Float32Array, channel: number, offset = 0) {
+    this.channels[channel].set(source.subarray(0, this.length - offset), offset);
+  }
+}
+
+export class FakeAudioBufferSourceNode extends FakeAudioNode {
+  buffer: FakeAudioBuffer | null = null;
+  onended: (() => void) | null = null;
+  /** Context time start() was called with, or null before. */
+  startTime: number | null = null;
+  /** Length passed to start(), if any. */
+  playLength: number | undefined;
+  stopped = false;
+
+  start(when = 0, _offset = 0, duration?: number) {
+    this.startTime = when;
+    this.playLength = duration;
+    this.context.startedSources.push(this);
+  }
+
+  stop() {
+    this.end();
+  }
+
+  /** Context time at which the source runs out. */
+  get endTime() {
+    return (this.startTime ?? 0) + (this.playLength ?? this.buffer?.duration ?? 0);
+  }
+
+  end() {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.onended?.();
+  }
+}
+
+export class FakeAudioContext {
+  readonly sampleRate: number;
+  currentTime = 0;
+  state: AudioContextState = 'suspended';
+  readonly destination: FakeAudioNode;
+  /** Every source node started on this context, in start order. */
+  readonly startedSources: FakeAudioBufferSourceNode[] = [];
+
+  constructor({ sampleRate = 48000 }: { sampleRate?: number } = {}) {
+    this.sampleRate = sampleRate;
+    this.destination = new FakeAudioNode(this);
+  }
+
+  async resume() {
+    this.state = 'running';
+  }
+
+  createGain() {
+    return new FakeGainNode(this);
+  }
+
+  createBiquadFilter() {
+    return new FakeBiquadFilterNode(this);
+  }
+
+  createDynamicsCompressor() {
+    return new FakeDynamicsCompressorNode(this);
+  }
+
+  createBufferSource() {
+    return new FakeAudioBufferSourceNode(this);
+  }
+
+  createMediaStreamDestination() {
+    return Object.assign(new FakeAudioNode(this), { stream: null });
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return new FakeAudioBuffer(numberOfChannels, length, sampleRate);
+  }
+
+  /** Moves the clock forward, ending the sources that run out on the way. */
+  advance(seconds: number) {
+    this.currentTime += seconds;
+    for (const source of this.startedSources) {
+      if (!source.stopped && source.endTime <= this.currentTime) source.end();
+    }
+  }
+
+  /** The fake, typed as the real thing for the code under test. */
+  get asAudioContext() {
+    return this as unknown as AudioContext;
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerateContentParameters, GoogleGenAI } from '@google/genai';
+
+import { encode } from '../../utils/audio';
+
+interface PendingResponse {
+  params: GenerateContentParameters;
+  resolve: (response: unknown) => void;
+}
+
+/**
+ * Stands in for `GoogleGenAI` as used by the announcer: text requests answer
+ * with a script and TTS requests with 24 kHz mono PCM. Responses wait until
+ * respondAll() is called, so a test can tune away while generation runs.
+ */
+export class FakeGenAI {
+  /** Every request made, answered or not. */
+  readonly calls: GenerateContentParameters[] = [];
+  private pending: PendingResponse[] = [];
+  /** Length of the generated speech, in seconds. */
+  speechSeconds = 1;
+
+  readonly models = {
+    generateContent: (params: GenerateContentParameters) => {
+      this.calls.push(params);
+      return new Promise((resolve) => this.pending.push({ params, resolve }));
+    },
+  };
+
+  /** Prompts of the script requests, one per announcement generated. */
+  get scriptPrompts(): string[] {
+    return this.calls.flatMap(({ contents }) => typeof contents === 'string' ? [contents] : []);
+  }
+
+  /** Answers every request waiting so far, in order. */
+  respondAll() {
+    for (const { params, resolve } of this.pending.splice(0)) {
+      if (typeof params.contents === 'string') {
+        resolve({ text: 'You are locked in.' });
+      } else {
+        const pcm = new Uint8Array(Math.round(24000 * 2 * this.speechSeconds));
+        resolve({ candidates: [{ content: { parts: [{ inlineData: { data: encode(pcm) } }] } }] });
+      }
+    }
+  }
+
+  get asGoogleGenAI() {
+    return this as unknown as GoogleGenAI;
+  }
+}
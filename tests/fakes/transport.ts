@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AudioChunk } from '@google/genai';
+
+import type { MusicCallbacks, MusicServerMessage, MusicSession, MusicTransport } from '../../utils/MusicTransport';
+import { encode } from '../../utils/audio';
+import { encodePcm } from '../../utils/pcm';
+
+export class FakeMusicSession implements MusicSession {
+  readonly calls: string[] = [];
+  readonly callbacks: MusicCallbacks;
+
+  constructor(callbacks: MusicCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  async setWeightedPrompts() {
+    this.calls.push('setWeightedPrompts');
+  }
+
+  async setMusicGenerationConfig() {
+    this.calls.push('setMusicGenerationConfig');
+  }
+
+  play() {
+    this.calls.push('play');
+  }
+
+  pause() {
+    this.calls.push('pause');
+  }
+
+  stop() {
+    this.calls.push('stop');
+  }
+
+  resetContext() {
+    this.calls.push('resetContext');
+  }
+
+  send(message: MusicServerMessage) {
+    this.callbacks.onmessage(message);
+  }
+
+  sendAudio(...chunks: AudioChunk[]) {
+    this.send({ serverContent: { audioChunks: chunks } });
+  }
+
+  close() {
+    this.callbacks.onclose?.(new Event('close'));
+  }
+}
+
+/**
+ * A transport whose sessions the test drives by hand. `failNext` makes the
+ * next connects reject, as when the server is unreachable.
+ */
+export class FakeMusicTransport implements MusicTransport {
+  readonly sessions: FakeMusicSession[] = [];
+  connectAttempts = 0;
+  failNext = 0;
+
+  async connect(callbacks: MusicCallbacks): Promise<MusicSession> {
+    this.connectAttempts++;
+    if (this.failNext > 0) {
+      this.failNext--;
+      throw new Error('Connection refused');
+    }
+    const session = new FakeMusicSession(callbacks);
+    this.sessions.push(session);
+    return session;
+  }
+
+  get session(): FakeMusicSession | undefined {
+    return this.sessions[this.sessions.length - 1];
+  }
+}
+
+/** `seconds` of 48 kHz stereo silence, as Lyria sends it. */
+export function silentChunk(seconds: number): AudioChunk {
+  const frames = Math.round(48000 * seconds);
+  const channel = new Float32Array(frames);
+  return { data: encode(encodePcm([channel, channel], 'int16', false)), mimeType: 'audio/pcm' };
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Times the PCM codec on a 2 s Lyria chunk against the per-sample decoder it
+// replaced. Run with `npm run bench`.
+import { bench, describe } from 'vitest';
+
+import { decodePcm, encodePcm, resample } from '../utils/pcm';
+
+const FRAMES = 2 * 48000;
+const channels = [0, 1].map((c) => Float32Array.from({ length: FRAMES }, (_, i) => Math.sin(i * 0.01 + c) * 0.8));
+const chunk = encodePcm(channels);
+const unaligned = (() => {
+  const copy = new Uint8Array(chunk.byteLength + 1);
+  copy.set(chunk, 1);
+  return copy.subarray(1);
+})();
+const speech = new Float32Array(24000 * 2).map((_, i) => Math.sin(i * 0.02));
+
+/** The decoder before utils/pcm.ts: scale everything, then filter each channel out. */
+function legacyDecode(data: Uint8Array, numChannels: number): Float32Array[] {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength / 2);
+  const dataFloat32 = new Float32Array(dataInt16.length);
+  for (let i = 0; i < dataInt16.length; i++) {
+    dataFloat32[i] = dataInt16[i] / 32768.0;
+  }
+  return Array.from({ length: numChannels }, (_, c) => dataFloat32.filter((_, index) => index % numChannels === c));
+}
+
+describe('decode a 2 s stereo int16 chunk', () => {
+  bench('legacy decoder', () => {
+    legacyDecode(chunk, 2);
+  });
+
+  bench('decodePcm', () => {
+    decodePcm(chunk, 2);
+  });
+
+  bench('decodePcm at an odd byte offset', () => {
+    decodePcm(unaligned, 2);
+  });
+});
+
+describe('encode a 2 s stereo chunk', () => {
+  bench('int16 with dither', () => {
+    encodePcm(channels);
+  });
+
+  bench('int24 with dither', () => {
+    encodePcm(channels, 'int24');
+  });
+});
+
+describe('resample 2 s of speech', () => {
+  bench('24 kHz to 48 kHz', () => {
+    resample(speech, 24000, 48000);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+
+import { BYTES_PER_SAMPLE, decodePcm, decodePcmAtRate, encodePcm, resample, type SampleFormat } from '../utils/pcm';
+
+/** One quantization step of each format; float32 round-trips exactly. */
+const STEP: Record<SampleFormat, number> = {
+  int16: 2 ** -15,
+  int24: 2 ** -23,
+  // Float32 only keeps 24 bits of an int32 sample.
+  int32: 2 ** -23,
+  float32: 0,
+};
+
+/** A deterministic sweep that covers both signs and both ends of the range. */
+function testSignal(frames: number, phase: number) {
+  return Float32Array.from({ length: frames }, (_, i) => Math.sin(i * 0.37 + phase) * (i % 7 === 0 ? 1 : 0.8));
+}
+
+/** Copies `bytes` into a larger buffer so the view starts at `byteOffset`. */
+function atOffset(bytes: Uint8Array, byteOffset: number) {
+  const copy = new Uint8Array(bytes.byteLength + byteOffset + 3);
+  copy.set(bytes, byteOffset);
+  return copy.subarray(byteOffset, byteOffset + bytes.byteLength);
+}
+
+function expectClose(actual: Float32Array, expected: Float32Array, tolerance: number) {
+  expect(actual).toHaveLength(expected.length);
+  for (let i = 0; i < expected.length; i++) {
+    expect(Math.abs(actual[i] - expected[i])).toBeLessThanOrEqual(tolerance);
+  }
+}
+
+describe('decodePcm', () => {
+  const formats: SampleFormat[] = ['int16', 'int24', 'int32', 'float32'];
+
+  describe.each(formats)('%s', (format) => {
+    it.each([0, 1, 2, 3, 5])('round-trips stereo read at byte offset %i', (byteOffset) => {
+      const channels = [testSignal(257, 0), testSignal(257, 1)];
+      const bytes = atOffset(encodePcm(channels, format, false), byteOffset);
+      const decoded = decodePcm(bytes, 2, format);
+      expect(decoded).toHaveLength(2);
+      // Half a step of rounding, plus up to a step because positive samples
+      // are scaled to the format's one-short-of-full-scale maximum.
+      decoded.forEach((channel, c) => expectClose(channel, channels[c], 1.5 * STEP[format]));
+    });
+
+    it('decodes the same samples on the aligned and unaligned paths', () => {
+      const channels = [testSignal(64, 0), testSignal(64, 2), testSignal(64, 4)];
+      const bytes = encodePcm(channels, format);
+      expect(decodePcm(atOffset(bytes, 1), 3, format)).toEqual(decodePcm(atOffset(bytes, 0), 3, format));
+    });
+
+    it('ignores a trailing partial frame', () => {
+      const bytes = encodePcm([testSignal(10, 0), testSignal(10, 1)], format);
+      const truncated = bytes.subarray(0, bytes.byteLength - BYTES_PER_SAMPLE[format]);
+      expect(decodePcm(truncated, 2, format)[0]).toHaveLength(9);
+    });
+  });
+
+  it('maps the integer extremes onto [-1, 1)', () => {
+    const bytes = encodePcm([Float32Array.from([-1, 1, -2, 2])], 'int16', false);
+    expect(Array.from(decodePcm(bytes, 1)[0])).toEqual([-1, 1 - 2 ** -15, -1, 1 - 2 ** -15]);
+  });
+
+  it('reads negative 24-bit samples with their sign', () => {
+    // -1 in 24-bit two's complement, then -0.5 (0xC00000).
+    const bytes = Uint8Array.from([0xff, 0xff, 0xff, 0x00, 0x00, 0xc0]);
+    expect(Array.from(decodePcm(bytes, 1, 'int24')[0])).toEqual([-(2 ** -23), -0.5]);
+  });
+
+  it('rejects a channel count that is not a positive whole number', () => {
+    expect(() => decodePcm(new Uint8Array(8), 0)).toThrow(RangeError);
+    expect(() => decodePcm(new Uint8Array(8), 1.5)).toThrow(RangeError);
+  });
+});
+
+describe('encodePcm', () => {
+  it('clamps float samples to [-1, 1]', () => {
+    const bytes = encodePcm([Float32Array.from([1.5, -3, 0.25])], 'float32');
+    expect(Array.from(decodePcm(bytes, 1, 'float32')[0])).toEqual([1, -1, 0.25]);
+  });
+
+  it('dithers integer samples by at most one step', () => {
+    const silence = new Float32Array(1000);
+    const decoded = decodePcm(encodePcm([silence], 'int16'), 1)[0];
+    expect(decoded.some((sample) => sample !== 0)).toBe(true);
+    expectClose(decoded, silence, STEP.int16);
+  });
+
+  it('encodes no channels as no bytes', () => {
+    expect(encodePcm([])).toHaveLength(0);
+  });
+});
+
+describe('resample', () => {
+  it('copies the input when the rates match', () => {
+    const input = testSignal(16, 0);
+    const output = resample(input, 48000, 48000);
+    expect(output).toEqual(input);
+    expect(output).not.toBe(input);
+  });
+
+  it('interpolates linearly when upsampling', () => {
+    const output = resample(Float32Array.from([0, 1, 2, 3]), 24000, 48000);
+    expect(Array.from(output)).toEqual([0, 0.5, 1, 1.5, 2, 2.5, 3, 3]);
+  });
+
+  it('averages the samples each output covers when downsampling', () => {
+    const output = resample(Float32Array.from([0, 1, 2, 3, 4, 5]), 48000, 24000);
+    expect(Array.from(output)).toEqual([0.5, 2.5, 4.5]);
+  });
+
+  it.each([
+    [24000, 48000],
+    [48000, 44100],
+    [44100, 48000],
+    [48000, 16000],
+  ])('keeps the duration and level of a constant signal from %i Hz to %i Hz', (fromRate, toRate) => {
+    const output = resample(new Float32Array(fromRate).fill(0.5), fromRate, toRate);
+    expect(output).toHaveLength(toRate);
+    expect(output.every((sample) => Math.abs(sample - 0.5) < 1e-6)).toBe(true);
+  });
+
+  it('keeps a low tone while downsampling', () => {
+    const tone = Float32Array.from({ length: 4800 }, (_, i) => Math.sin(2 * Math.PI * 100 * i / 48000));
+    const output = resample(tone, 48000, 24000);
+    const expected = Float32Array.from({ length: 2400 }, (_, i) => Math.sin(2 * Math.PI * 100 * (i + 0.25) / 24000));
+    expectClose(output, expected, 1e-3);
+  });
+});
+
+describe('decodePcmAtRate', () => {
+  it('resamples speech onto the music clock', () => {
+    const bytes = encodePcm([new Float32Array(2400).fill(0.25)], 'int16', false);
+    const [channel] = decodePcmAtRate(bytes, { sampleRate: 24000, numChannels: 1 }, 48000);
+    expect(channel).toHaveLength(4800);
+    expectClose(channel, new Float32Array(4800).fill(0.25), STEP.int16);
+  });
+
+  it('leaves audio at the target rate untouched', () => {
+    const bytes = encodePcm([testSignal(100, 0), testSignal(100, 1)], 'int16', false);
+    expect(decodePcmAtRate(bytes, { sampleRate: 48000, numChannels: 2 }, 48000)).toEqual(decodePcm(bytes, 2));
+  });
+});
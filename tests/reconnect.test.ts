@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { PlaybackState, Prompt } from '../types';
+import type { BackoffPolicy } from '../utils/backoff';
+import { LiveMusicHelper } from '../utils/LiveMusicHelper';
+import { FakeAudioContext } from './fakes/audio';
+import { FakeMusicTransport, silentChunk } from './fakes/transport';
+
+const POLICY: BackoffPolicy = { maxAttempts: 3, initialDelay: 100, maxDelay: 1000, multiplier: 2, jitter: 0 };
+
+const PROMPTS = new Map<string, Prompt>([
+  ['jazz', { promptId: 'jazz', text: 'Jazz', weight: 1, cc: 0, color: '#fff', frequency: 88.1 }],
+]);
+
+describe('LiveMusicHelper reconnect', () => {
+  let transport: FakeMusicTransport;
+  let helper: LiveMusicHelper;
+  let states: PlaybackState[];
+  let errors: string[];
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    transport = new FakeMusicTransport();
+    helper = new LiveMusicHelper(transport, POLICY, new FakeAudioContext().asAudioContext);
+    states = [];
+    errors = [];
+    helper.addEventListener('playback-state-changed', (e) => states.push((e as CustomEvent<PlaybackState>).detail));
+    helper.addEventListener('error', (e) => errors.push((e as CustomEvent<string>).detail));
+    helper.setWeightedPrompts(PROMPTS);
+    const playing = helper.play();
+    await vi.advanceTimersByTimeAsync(250);
+    await playing;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially and gives up after maxAttempts', async () => {
+    transport.failNext = Infinity;
+    transport.session!.close();
+    expect(states.at(-1)).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(99);
+    expect(transport.connectAttempts).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(transport.connectAttempts).toBe(2);
+    await vi.advanceTimersByTimeAsync(200);
+    expect(transport.connectAttempts).toBe(3);
+    await vi.advanceTimersByTimeAsync(400);
+    expect(transport.connectAttempts).toBe(4);
+
+    expect(states.at(-1)).toBe('stopped');
+    expect(errors).toEqual(['Connection lost after 3 reconnect attempts, please restart audio.']);
+  });
+
+  it('gives up on a server that accepts the socket and drops it straight away', async () => {
+    transport.session!.close();
+    for (const delay of [100, 200, 400]) {
+      await vi.advanceTimersByTimeAsync(delay);
+      expect(states.at(-1)).toBe('loading');
+      transport.session!.close();
+    }
+
+    expect(transport.sessions).toHaveLength(4);
+    expect(states.at(-1)).toBe('stopped');
+    expect(errors).toHaveLength(1);
+  });
+
+  it('starts over once a new session answers', async () => {
+    for (let drop = 0; drop < 5; drop++) {
+      transport.session!.close();
+      // Always the initial delay, since every session answered before dropping.
+      await vi.advanceTimersByTimeAsync(100);
+      expect(states.at(-1)).toBe('loading');
+      transport.session!.send({ setupComplete: {} });
+    }
+
+    expect(transport.sessions).toHaveLength(6);
+    expect(errors).toEqual([]);
+    // The replayed prompts went to the latest session.
+    expect(transport.session!.calls).toEqual(['setWeightedPrompts', 'setMusicGenerationConfig', 'play']);
+  });
+
+  it('drops audio from the lost session that is still decoding', async () => {
+    const lost = transport.session!;
+    lost.sendAudio(silentChunk(2));
+    lost.close();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(helper.chunks.stats).toMatchObject({ received: 1, played: 0, dropped: 1 });
+  });
+
+  it('leaves the session of a play() after a pause alone', async () => {
+    transport.session!.close();
+    expect(states.at(-1)).toBe('reconnecting');
+    helper.pause();
+
+    const playing = helper.play();
+    await vi.advanceTimersByTimeAsync(250);
+    await playing;
+    // Past the backoff delay the cancelled retry would have fired at.
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(transport.connectAttempts).toBe(2);
+    expect(transport.session!.calls).not.toContain('stop');
+    expect(states.at(-1)).toBe('loading');
+    transport.session!.sendAudio(silentChunk(2));
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(states.at(-1)).toBe('playing');
+  });
+
+  it('does not stop a session play() opened while a retry was pending', async () => {
+    transport.session!.close();
+    const playing = helper.play();
+    await vi.advanceTimersByTimeAsync(250);
+    await playing;
+
+    expect(transport.sessions).toHaveLength(2);
+    expect(transport.session!.calls).not.toContain('stop');
+    expect(states.at(-1)).toBe('loading');
+  });
+});
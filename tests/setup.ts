@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Browser globals the app reaches for that Node doesn't have. Web Audio is
+// not installed globally; tests hand a FakeAudioContext to what they build.
+import { beforeEach } from 'vitest';
+
+class MemoryStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string) {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this.items.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this.items.delete(key);
+  }
+
+  clear() {
+    this.items.clear();
+  }
+}
+
+const storage = new MemoryStorage();
+// Timers go through `window.setTimeout`, so fake timers have to reach it too.
+Object.assign(globalThis, { window: globalThis, localStorage: storage });
+
+beforeEach(() => storage.clear());
@@ -0,0 +1,226 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { debounce, throttle } from '../utils/throttle';
+
+describe('throttle', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs the first call at once and the last of a burst when the window closes', async () => {
+    const func = vi.fn((value: number) => value * 2);
+    const limited = throttle(func, 100);
+
+    const first = limited(1);
+    limited(2);
+    const last = limited(3);
+    expect(func.mock.calls).toEqual([[1]]);
+    expect(limited.pending).toBe(true);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(func.mock.calls).toEqual([[1], [3]]);
+    expect(limited.pending).toBe(false);
+    await expect(first).resolves.toBe(2);
+    await expect(last).resolves.toBe(6);
+  });
+
+  it('resolves every call a trailing invocation covered with its result', async () => {
+    const limited = throttle((value: string) => value, 100);
+    limited('a');
+    const skipped = limited('b');
+    const latest = limited('c');
+    await vi.advanceTimersByTimeAsync(100);
+    await expect(skipped).resolves.toBe('c');
+    await expect(latest).resolves.toBe('c');
+  });
+
+  it('keeps pacing after a trailing call', async () => {
+    const func = vi.fn();
+    const limited = throttle(func, 100);
+    limited(1);
+    limited(2);
+    await vi.advanceTimersByTimeAsync(100);
+    limited(3);
+    expect(func).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(func).toHaveBeenCalledTimes(3);
+  });
+
+  it('runs again at once after a quiet window', async () => {
+    const func = vi.fn();
+    const limited = throttle(func, 100);
+    limited(1);
+    await vi.advanceTimersByTimeAsync(100);
+    limited(2);
+    expect(func.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it('waits for the window without a leading call', async () => {
+    const func = vi.fn();
+    const limited = throttle(func, 100, { leading: false });
+    limited(1);
+    limited(2);
+    expect(func).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(func.mock.calls).toEqual([[2]]);
+  });
+
+  it('resolves dropped calls with undefined without a trailing call', async () => {
+    const func = vi.fn(() => 'ran');
+    const limited = throttle(func, 100, { trailing: false });
+    const first = limited();
+    const dropped = limited();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(func).toHaveBeenCalledTimes(1);
+    await expect(first).resolves.toBe('ran');
+    await expect(dropped).resolves.toBeUndefined();
+  });
+
+  it('cancels the pending call and resolves its callers with undefined', async () => {
+    const func = vi.fn(() => 'ran');
+    const limited = throttle(func, 100);
+    limited();
+    const cancelled = limited();
+    limited.cancel();
+    expect(limited.pending).toBe(false);
+    await expect(cancelled).resolves.toBeUndefined();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(func).toHaveBeenCalledTimes(1);
+    // The window went with the cancel, so the next call leads again.
+    limited();
+    expect(func).toHaveBeenCalledTimes(2);
+  });
+
+  it('flushes the pending call now', async () => {
+    const func = vi.fn((value: number) => value);
+    const limited = throttle(func, 100);
+    limited(1);
+    const waiting = limited(2);
+    const flushed = limited.flush();
+    expect(func.mock.calls).toEqual([[1], [2]]);
+    await expect(flushed).resolves.toBe(2);
+    await expect(waiting).resolves.toBe(2);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(func).toHaveBeenCalledTimes(2);
+  });
+
+  it('flushes nothing when no call is waiting', async () => {
+    const func = vi.fn();
+    const limited = throttle(func, 100);
+    await expect(limited.flush()).resolves.toBeUndefined();
+    expect(func).not.toHaveBeenCalled();
+  });
+
+  it('rejects every call covered by an invocation that fails', async () => {
+    const limited = throttle(async (fail: boolean) => {
+      if (fail) throw new Error('boom');
+      return 'ok';
+    }, 100);
+    const leading = limited(false);
+    const skipped = limited(true);
+    const failing = limited(true);
+    // Attach handlers before the rejection lands.
+    const settled = Promise.allSettled([skipped, failing]);
+    await vi.advanceTimersByTimeAsync(100);
+
+    await expect(leading).resolves.toBe('ok');
+    const results = await settled;
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+  });
+
+  it('rejects when the callee throws synchronously', async () => {
+    const limited = throttle(() => {
+      throw new Error('boom');
+    }, 100);
+    await expect(limited()).rejects.toThrow('boom');
+  });
+});
+
+describe('debounce', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('runs once calls stop, with the latest arguments', async () => {
+    const func = vi.fn((value: number) => value);
+    const limited = debounce(func, 100);
+    const first = limited(1);
+    await vi.advanceTimersByTimeAsync(60);
+    limited(2);
+    await vi.advanceTimersByTimeAsync(60);
+    expect(func).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(40);
+    expect(func.mock.calls).toEqual([[2]]);
+    await expect(first).resolves.toBe(2);
+  });
+
+  it('does not keep pacing after it has run', async () => {
+    const func = vi.fn();
+    const limited = debounce(func, 100);
+    limited();
+    await vi.advanceTimersByTimeAsync(100);
+    limited();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(func).toHaveBeenCalledTimes(2);
+  });
+
+  it('runs the first call of a burst with leading set', async () => {
+    const func = vi.fn();
+    const limited = debounce(func, 100, { leading: true, trailing: false });
+    limited(1);
+    limited(2);
+    await vi.advanceTimersByTimeAsync(50);
+    limited(3);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(func.mock.calls).toEqual([[1]]);
+  });
+
+  it('cancels and flushes like a throttle', async () => {
+    const func = vi.fn((value: number) => value);
+    const limited = debounce(func, 100);
+    const cancelled = limited(1);
+    limited.cancel();
+    await expect(cancelled).resolves.toBeUndefined();
+
+    limited(2);
+    expect(limited.pending).toBe(true);
+    await expect(limited.flush()).resolves.toBe(2);
+    expect(limited.pending).toBe(false);
+    expect(func.mock.calls).toEqual([[2]]);
+  });
+
+  it('starts a fresh quiet period after a flush', async () => {
+    const func = vi.fn();
+    const limited = debounce(func, 100);
+    limited(1);
+    await limited.flush();
+    limited(2);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(func.mock.calls).toEqual([[1], [2]]);
+  });
+
+  it('leads again straight after a flush', async () => {
+    const func = vi.fn();
+    const limited = debounce(func, 100, { leading: true });
+    limited(1);
+    limited(2);
+    await limited.flush();
+    limited(3);
+    expect(func.mock.calls).toEqual([[1], [2], [3]]);
+  });
+});
@@ -2,12 +2,165 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import type { Scale } from '@google/genai';
+
 export interface Prompt {
   readonly promptId: string;
   text: string;
   weight: number;
   cc: number;
   color: string;
+  /** FM frequency shown on the dial, in MHz. */
+  frequency: number;
+}
+
+/** A station as stored in a preset, without any live mixing state. */
+export interface Station {
+  text: string;
+  color: string;
+  cc: number;
+  frequency: number;
+}
+
+/** A named list of stations that can be saved, shared and loaded. */
+export interface StationList {
+  name: string;
+  stations: Station[];
+}
+
+/**
+ * Lyria generation settings exposed on the boombox.
+ * Fields left undefined fall back to the model's own defaults.
+ */
+export interface MusicConfig {
+  /** Beats per minute, 60-200. Changing it requires a context reset. */
+  bpm?: number;
+  /** Density of sounds, 0-1. */
+  density?: number;
+  /** Brightness of the music, 0-1. */
+  brightness?: number;
+  /** How closely the model follows prompts, 0-6. */
+  guidance?: number;
+  /** Variance in generation, 0-3. */
+  temperature?: number;
+  seed?: number;
+  /** Musical key. Changing it requires a context reset. */
+  scale?: Scale;
+}
+
+/** Average level of each frequency band, from 0 to 1. */
+export interface BandLevels {
+  low: number;
+  mid: number;
+  high: number;
+}
+
+export interface SpectrumFrame {
+  bands: BandLevels;
+  /** Log-spaced bars from bass to treble, each from 0 to 1. */
+  bars: number[];
+}
+
+/** Channel levels in dBFS, floored at the analyser's noise floor. */
+export interface MeterReading {
+  rms: number;
+  peak: number;
+  /** Highest recent peak, held briefly and then released. */
+  peakHold: number;
+}
+
+export interface StereoMeter {
+  left: MeterReading;
+  right: MeterReading;
+}
+
+export interface Beat {
+  /** Seconds from the start of the analysed audio. */
+  time: number;
+  /** How pronounced the onset was, from 0 to 1. */
+  strength: number;
+  /** Tempo estimate at the time of the beat, if there is one yet. */
+  bpm: number | null;
+}
+
+export type CrossfadeCurve = 'linear' | 'equal-power';
+
+export interface CrossfadeSettings {
+  /** Length of a fade between stations, in milliseconds; 0 switches instantly. */
+  duration: number;
+  curve: CrossfadeCurve;
+}
+
+export interface StaticSettings {
+  enabled: boolean;
+  /** Loudness of the static at full intensity, from 0 to 1. */
+  level: number;
+}
+
+export interface ScanSettings {
+  /** Seconds each station plays before the scan moves on. */
+  dwell: number;
+  /** Let the DJ introduce every station the scan passes. */
+  announce: boolean;
+}
+
+export interface AlarmSettings {
+  enabled: boolean;
+  /** Local time of day to go off, as HH:MM. */
+  time: string;
+  /** Text of the station to wake up to. */
+  station: string;
+  /** Seconds the music takes to fade in. */
+  fadeIn: number;
+}
+
+export interface ClockSettings {
+  /** Seconds the music takes to fade out when the sleep timer runs out. */
+  sleepFade: number;
+  alarm: AlarmSettings;
+}
+
+/** Seconds left on the sleep timer and until the alarm; null when not set. */
+export interface ClockCountdown {
+  sleep: number | null;
+  alarm: number | null;
+}
+
+export interface MasterSettings {
+  /** Output level from 0 to 1. */
+  volume: number;
+  /** EQ band gains in dB. */
+  bass: number;
+  mid: number;
+  treble: number;
+  bassBoost: boolean;
+}
+
+export interface DuckingOptions {
+  /** How far the music drops under the voice, in dB. */
+  amount: number;
+  /** Seconds to reach the ducked level. */
+  attack: number;
+  /** Seconds to come back to full level. */
+  release: number;
+}
+
+export interface AnnouncerSettings {
+  enabled: boolean;
+  /** Name of a prebuilt TTS voice. */
+  voice: string;
+  /** Script prompt for the DJ; `{station}` and `{frequency}` are filled in. */
+  persona: string;
+  /** How long tuning has to settle before a script is generated, in milliseconds. */
+  debounce: number;
+  /** Delay between tuning in and the announcement, in seconds. */
+  delay: number;
+  /** Announce again every N minutes while on the same station; 0 announces once. */
+  repeatMinutes: number;
+  /** Longest announcement to play, in seconds; longer speech is faded out. */
+  maxLength: number;
+  /** How the music is ducked while the DJ talks. */
+  ducking: DuckingOptions;
 }
 
 export interface ControlChange {
@@ -16,4 +169,106 @@ export interface ControlChange {
   value: number;
 }
 
-export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+export interface NoteOn {
+  channel: number;
+  note: number;
+  velocity: number;
+}
+
+/** Boombox actions that can be driven from a MIDI controller. */
+export type MidiAction = 'tune' | 'play-pause' | 'volume';
+
+export interface MidiBinding {
+  type: 'cc' | 'note';
+  channel: number;
+  /** CC or note number. */
+  number: number;
+  /** Relative encoders send signed increments instead of a position. */
+  mode: 'absolute' | 'relative';
+}
+
+export interface MidiMapping {
+  inputId: string | null;
+  bindings: Partial<Record<MidiAction, MidiBinding>>;
+}
+
+/** Boombox actions that can be triggered from the computer keyboard. */
+export type ShortcutAction =
+  | 'next-station'
+  | 'previous-station'
+  | `favorite-${1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}`
+  | 'play-pause'
+  | 'record'
+  | 'mute-announcer'
+  | 'volume-up'
+  | 'volume-down'
+  | 'help';
+
+/** Keyboard shortcuts, as `KeyboardEvent.key` values with letters lowercased. */
+export type ShortcutBindings = Record<ShortcutAction, string | null>;
+
+/** A buffer scheduled for playback on the shared AudioContext clock. */
+export interface ScheduledAudio {
+  buffer: AudioBuffer;
+  /** AudioContext time at which the buffer starts playing. */
+  startTime: number;
+  /** Seconds that actually play, when the buffer is cut short. */
+  duration?: number;
+  /** Fade-out leading up to the cut, in seconds. */
+  fadeOut?: number;
+}
+
+/** Snapshot of the playback buffer, in seconds unless noted. */
+export interface BufferHealth {
+  /** Audio currently scheduled ahead of the playhead. */
+  lead: number;
+  /** Lead the jitter buffer is aiming for. */
+  target: number;
+  /** Smoothed deviation of chunk arrivals from their expected spacing. */
+  jitter: number;
+  /** Number of times playback ran dry. */
+  underruns: number;
+}
+
+/** Why music chunks never reached playback. */
+export type ChunkDropReason = 'empty' | 'decode-error' | 'play-error' | 'idle' | 'flushed';
+
+/** Running counts of the music chunk pipeline since the page loaded. */
+export interface ChunkStats {
+  /** Chunks received from the server. */
+  received: number;
+  /** Chunks handed to playback. */
+  played: number;
+  dropped: number;
+  /** Chunks that finished decoding ahead of an earlier one and were held back. */
+  reordered: number;
+  /** Breaks in the sequence of played chunks, not counting those after a pause. */
+  gaps: number;
+  /** Sequence number of the last chunk played, or -1. */
+  lastSequence: number;
+}
+
+export interface ChunkDrop {
+  /** Sequence number of the first dropped chunk. */
+  sequence: number;
+  count: number;
+  reason: ChunkDropReason;
+  stats: ChunkStats;
+}
+
+export interface ChunkReorder {
+  sequence: number;
+  /** Earlier chunk still decoding, which this one waits for. */
+  waitingFor: number;
+  stats: ChunkStats;
+}
+
+export type RecordingFormat = 'wav' | 'opus';
+
+export interface RecordingOptions {
+  format: RecordingFormat;
+  /** Mix the DJ announcements into the take. */
+  includeVoice: boolean;
+}
+
+export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused' | 'reconnecting';
@@ -2,30 +2,210 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-/** Simple class for getting the current audio level. */
+import type { BandLevels, MeterReading, SpectrumFrame, StereoMeter } from '../types';
+
+/** Events dispatched once per animation frame while running. */
+export interface AudioAnalyserEventMap {
+  /** Average level across all bins, from 0 to 1. */
+  'audio-level-changed': CustomEvent<number>;
+  'spectrum-changed': CustomEvent<SpectrumFrame>;
+  'meter-changed': CustomEvent<StereoMeter>;
+  /** Time-domain samples of the summed signal, from -1 to 1. */
+  'waveform-changed': CustomEvent<Float32Array>;
+  /** Samples that arrived since the previous frame, as one continuous stream. */
+  'samples-received': CustomEvent<Float32Array>;
+}
+
+/** Lowest level reported by the meters, in dBFS. */
+export const METER_FLOOR_DB = -60;
+/** How long a peak is held before it starts to fall, in milliseconds. */
+const PEAK_HOLD_TIME = 1500;
+/** How fast a released peak falls, in dB per second. */
+const PEAK_FALL_RATE = 20;
+
+const LOW_MID_CROSSOVER = 250;
+const MID_HIGH_CROSSOVER = 4000;
+const SPECTRUM_BARS = 16;
+const SPECTRUM_MIN_FREQUENCY = 40;
+const SPECTRUM_MAX_FREQUENCY = 16000;
+
+interface PeakHold {
+  level: number;
+  time: number;
+}
+
+/**
+ * Analyses whatever is connected to `node`: overall level, band levels,
+ * a bar spectrum, per-channel RMS/peak meters and the waveform.
+ */
 export class AudioAnalyser extends EventTarget {
   readonly node: AnalyserNode;
+  private readonly channelAnalysers: [AnalyserNode, AnalyserNode];
   private readonly freqData: Uint8Array;
+  private readonly waveform: Float32Array;
+  private readonly channelData: Float32Array;
+  private readonly barRanges: [number, number][];
+  private peakHolds: [PeakHold, PeakHold] = [
+    { level: METER_FLOOR_DB, time: 0 },
+    { level: METER_FLOOR_DB, time: 0 },
+  ];
   private rafId: number | null = null;
+  /** Context time of the last waveform read, to know how many samples are new. */
+  private lastReadTime: number | null = null;
+
   constructor(context: AudioContext) {
     super();
     this.node = context.createAnalyser();
     this.node.smoothingTimeConstant = 0;
     this.freqData = new Uint8Array(this.node.frequencyBinCount);
+    this.waveform = new Float32Array(this.node.fftSize);
+
+    // The analyser passes its input through, so split that for the L/R meters.
+    const splitter = context.createChannelSplitter(2);
+    this.node.connect(splitter);
+    this.channelAnalysers = [context.createAnalyser(), context.createAnalyser()];
+    this.channelAnalysers.forEach((analyser, channel) => {
+      analyser.fftSize = 1024;
+      splitter.connect(analyser, channel);
+    });
+    this.channelData = new Float32Array(1024);
+
+    this.barRanges = this.computeBarRanges(context.sampleRate);
     this.loop = this.loop.bind(this);
   }
+
+  addEventListener<K extends keyof AudioAnalyserEventMap>(
+    type: K,
+    listener: (event: AudioAnalyserEventMap[K]) => void,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions,
+  ): void;
+  addEventListener(
+    type: string,
+    listener: EventListenerOrEventListenerObject | null,
+    options?: boolean | AddEventListenerOptions,
+  ) {
+    super.addEventListener(type, listener, options);
+  }
+
   getCurrentLevel() {
     this.node.getByteFrequencyData(this.freqData);
     const avg = this.freqData.reduce((a, b) => a + b, 0) / this.freqData.length;
     return avg / 0xff;
   }
+
+  /** Levels of the low/mid/high bands from the last `getCurrentLevel` read. */
+  getBandLevels(): BandLevels {
+    const binWidth = this.node.context.sampleRate / this.node.fftSize;
+    const lowEnd = Math.round(LOW_MID_CROSSOVER / binWidth);
+    const midEnd = Math.round(MID_HIGH_CROSSOVER / binWidth);
+    return {
+      low: this.averageBins(1, lowEnd),
+      mid: this.averageBins(lowEnd, midEnd),
+      high: this.averageBins(midEnd, this.freqData.length),
+    };
+  }
+
+  /** Bar levels from the last `getCurrentLevel` read. */
+  getSpectrumBars(): number[] {
+    return this.barRanges.map(([start, end]) => this.averageBins(start, end));
+  }
+
+  getWaveform(): Float32Array {
+    this.node.getFloatTimeDomainData(this.waveform);
+    return this.waveform;
+  }
+
+  /**
+   * Returns the samples that reached the analyser since the previous call,
+   * up to one FFT window. Successive calls stitch into a continuous stream.
+   */
+  getNewSamples(): Float32Array {
+    const waveform = this.getWaveform();
+    const now = this.node.context.currentTime;
+    const elapsed = this.lastReadTime === null ? waveform.length : (now - this.lastReadTime) * this.node.context.sampleRate;
+    this.lastReadTime = now;
+    const count = Math.min(waveform.length, Math.round(elapsed));
+    return waveform.subarray(waveform.length - count);
+  }
+
+  getStereoMeter(now = performance.now()): StereoMeter {
+    const [left, right] = this.channelAnalysers.map((analyser, channel) =>
+      this.readChannel(analyser, channel, now));
+    return { left, right };
+  }
+
   loop() {
     this.rafId = requestAnimationFrame(this.loop);
     const level = this.getCurrentLevel();
     this.dispatchEvent(new CustomEvent('audio-level-changed', { detail: level }));
+    this.dispatchEvent(new CustomEvent<SpectrumFrame>('spectrum-changed', {
+      detail: { bands: this.getBandLevels(), bars: this.getSpectrumBars() },
+    }));
+    this.dispatchEvent(new CustomEvent<StereoMeter>('meter-changed', { detail: this.getStereoMeter() }));
+    const samples = this.getNewSamples();
+    this.dispatchEvent(new CustomEvent<Float32Array>('waveform-changed', { detail: this.waveform }));
+    this.dispatchEvent(new CustomEvent<Float32Array>('samples-received', { detail: samples }));
   }
-  start = this.loop;
+
+  start() {
+    this.stop();
+    this.loop();
+  }
+
   stop() {
     if (this.rafId) cancelAnimationFrame(this.rafId);
+    this.rafId = null;
+    this.lastReadTime = null;
+  }
+
+  private averageBins(start: number, end: number) {
+    const from = Math.max(0, start);
+    const to = Math.min(this.freqData.length, Math.max(end, from + 1));
+    let sum = 0;
+    for (let i = from; i < to; i++) sum += this.freqData[i];
+    return sum / (to - from) / 0xff;
   }
+
+  /** Splits the audible range into log-spaced bin ranges, at least one bin wide. */
+  private computeBarRanges(sampleRate: number): [number, number][] {
+    const binWidth = sampleRate / this.node.fftSize;
+    const ratio = SPECTRUM_MAX_FREQUENCY / SPECTRUM_MIN_FREQUENCY;
+    const edge = (i: number) => Math.round(SPECTRUM_MIN_FREQUENCY * Math.pow(ratio, i / SPECTRUM_BARS) / binWidth);
+    return Array.from({ length: SPECTRUM_BARS }, (_, i) => {
+      const start = edge(i);
+      return [start, Math.max(edge(i + 1), start + 1)];
+    });
+  }
+
+  private readChannel(analyser: AnalyserNode, channel: number, now: number): MeterReading {
+    analyser.getFloatTimeDomainData(this.channelData);
+    let sumOfSquares = 0;
+    let peak = 0;
+    for (const sample of this.channelData) {
+      sumOfSquares += sample * sample;
+      peak = Math.max(peak, Math.abs(sample));
+    }
+    const rmsDb = toDb(Math.sqrt(sumOfSquares / this.channelData.length));
+    const peakDb = toDb(peak);
+
+    const hold = this.peakHolds[channel];
+    const heldFor = now - hold.time;
+    const released = heldFor > PEAK_HOLD_TIME
+      ? hold.level - (heldFor - PEAK_HOLD_TIME) / 1000 * PEAK_FALL_RATE
+      : hold.level;
+    if (peakDb >= released) {
+      this.peakHolds[channel] = { level: peakDb, time: now };
+    }
+
+    return { rms: rmsDb, peak: peakDb, peakHold: Math.max(peakDb, released, METER_FLOOR_DB) };
+  }
+}
+
+function toDb(amplitude: number) {
+  return Math.max(METER_FLOOR_DB, 20 * Math.log10(amplitude));
 }
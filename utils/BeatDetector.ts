@@ -0,0 +1,218 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Beat } from '../types';
+
+export interface BeatDetectorOptions {
+  minBpm: number;
+  maxBpm: number;
+  /** Standard deviations above the local mean an onset must reach to count as a beat. */
+  sensitivity: number;
+  /** Seconds of onset history used for the tempo estimate. */
+  tempoWindow: number;
+}
+
+export const DEFAULT_BEAT_DETECTOR_OPTIONS: BeatDetectorOptions = {
+  minBpm: 60,
+  maxBpm: 180,
+  sensitivity: 1.5,
+  tempoWindow: 6,
+};
+
+/** Length of one analysis hop, in seconds. */
+const HOP_DURATION = 0.01;
+/** Cutoff of the low-pass that isolates kicks and bass, in Hz. */
+const LOW_BAND_CUTOFF = 200;
+/** Scales energy before log compression, so quiet passages still produce onsets. */
+const LOG_COMPRESSION = 1000;
+/** Seconds of onset history the beat threshold adapts to. */
+const THRESHOLD_WINDOW = 1.5;
+/** Onsets weaker than this are never beats, however quiet the surroundings. */
+const MIN_ONSET = 0.01;
+/** Hops between tempo updates. */
+const TEMPO_UPDATE_HOPS = 50;
+/** Tempo the estimate leans towards when several are plausible. */
+const PREFERRED_BPM = 120;
+/** Onset history needed before a tempo is estimated, in seconds. */
+const MIN_TEMPO_HISTORY = 3;
+
+/**
+ * Finds beats and estimates the tempo of mono PCM audio.
+ *
+ * Onsets are rises in log energy, of the whole signal and of a low band
+ * that follows the kick. A beat is an onset peak that stands out from the
+ * recent average; the tempo is the strongest autocorrelation lag of the onset
+ * envelope. The detector only needs samples, so it runs the same on a live
+ * stream and offline on decoded buffers.
+ *
+ * Dispatches `beat` (Beat) for every beat and `tempo-changed` (number) when
+ * the rounded BPM estimate changes.
+ */
+export class BeatDetector extends EventTarget {
+  private readonly options: BeatDetectorOptions;
+  private readonly sampleRate: number;
+  private readonly hopSize: number;
+  private readonly lowPassCoefficient: number;
+  private readonly thresholdHops: number;
+  private readonly maxEnvelopeLength: number;
+
+  private lowState = 0;
+  private hopFill = 0;
+  private hopEnergy = 0;
+  private hopLowEnergy = 0;
+  private hopCount = 0;
+  private previousLogEnergy = 0;
+  private previousLogLowEnergy = 0;
+  private envelope: number[] = [];
+  private lastBeatTime = -Infinity;
+  private _bpm: number | null = null;
+
+  constructor(sampleRate: number, options: BeatDetectorOptions = DEFAULT_BEAT_DETECTOR_OPTIONS) {
+    super();
+    this.options = options;
+    this.sampleRate = sampleRate;
+    this.hopSize = Math.round(sampleRate * HOP_DURATION);
+    this.lowPassCoefficient = 1 - Math.exp(-2 * Math.PI * LOW_BAND_CUTOFF / sampleRate);
+    this.thresholdHops = Math.round(THRESHOLD_WINDOW / HOP_DURATION);
+    this.maxEnvelopeLength = Math.round(options.tempoWindow / HOP_DURATION);
+  }
+
+  /** Current tempo estimate, or null until enough audio has been heard. */
+  get bpm(): number | null {
+    return this._bpm;
+  }
+
+  /** Feeds the next block of samples, returning any beats found in it. */
+  process(samples: Float32Array): Beat[] {
+    const beats: Beat[] = [];
+    for (const sample of samples) {
+      this.lowState += (sample - this.lowState) * this.lowPassCoefficient;
+      this.hopEnergy += sample * sample;
+      this.hopLowEnergy += this.lowState * this.lowState;
+      if (++this.hopFill < this.hopSize) continue;
+
+      const beat = this.processHop(this.hopEnergy / this.hopSize, this.hopLowEnergy / this.hopSize);
+      if (beat) beats.push(beat);
+      this.hopFill = 0;
+      this.hopEnergy = 0;
+      this.hopLowEnergy = 0;
+      this.hopCount++;
+    }
+    return beats;
+  }
+
+  /** Forgets all history, e.g. when playback stops. */
+  reset() {
+    this.lowState = 0;
+    this.hopFill = 0;
+    this.hopEnergy = 0;
+    this.hopLowEnergy = 0;
+    this.hopCount = 0;
+    this.previousLogEnergy = 0;
+    this.previousLogLowEnergy = 0;
+    this.envelope = [];
+    this.lastBeatTime = -Infinity;
+    if (this._bpm !== null) {
+      this._bpm = null;
+      this.dispatchEvent(new CustomEvent<number | null>('tempo-changed', { detail: null }));
+    }
+  }
+
+  private processHop(energy: number, lowEnergy: number): Beat | null {
+    const logEnergy = Math.log1p(LOG_COMPRESSION * energy);
+    const logLowEnergy = Math.log1p(LOG_COMPRESSION * lowEnergy);
+    const onset = Math.max(0, logEnergy - this.previousLogEnergy)
+      + Math.max(0, logLowEnergy - this.previousLogLowEnergy);
+    this.previousLogEnergy = logEnergy;
+    this.previousLogLowEnergy = logLowEnergy;
+
+    this.envelope.push(onset);
+    if (this.envelope.length > this.maxEnvelopeLength) this.envelope.shift();
+    if (this.hopCount % TEMPO_UPDATE_HOPS === 0) this.updateTempo();
+
+    return this.pickBeat(onset);
+  }
+
+  /**
+   * Decides whether the previous hop was a beat. Peaks can only be judged
+   * once the following hop is known, so beats are reported one hop late.
+   */
+  private pickBeat(onset: number): Beat | null {
+    const n = this.envelope.length;
+    if (n < 3) return null;
+    const candidate = this.envelope[n - 2];
+    if (candidate <= this.envelope[n - 3] || candidate < onset || candidate < MIN_ONSET) return null;
+
+    const window = this.envelope.slice(Math.max(0, n - 2 - this.thresholdHops), n - 2);
+    if (window.length === 0) return null;
+    const mean = window.reduce((a, b) => a + b, 0) / window.length;
+    const deviation = Math.sqrt(window.reduce((a, b) => a + (b - mean) ** 2, 0) / window.length);
+    if (candidate < mean + this.options.sensitivity * deviation) return null;
+
+    const time = (this.hopCount - 1) * this.hopSize / this.sampleRate;
+    if (time - this.lastBeatTime < 60 / this.options.maxBpm) return null;
+    this.lastBeatTime = time;
+
+    const beat: Beat = {
+      time,
+      strength: Math.min(1, candidate / (mean + 4 * deviation || candidate)),
+      bpm: this._bpm,
+    };
+    this.dispatchEvent(new CustomEvent<Beat>('beat', { detail: beat }));
+    return beat;
+  }
+
+  private updateTempo() {
+    const hopRate = 1 / HOP_DURATION;
+    if (this.envelope.length < MIN_TEMPO_HISTORY * hopRate) return;
+
+    const mean = this.envelope.reduce((a, b) => a + b, 0) / this.envelope.length;
+    const centered = this.envelope.map((value) => value - mean);
+    const minLag = Math.floor(hopRate * 60 / this.options.maxBpm);
+    const maxLag = Math.ceil(hopRate * 60 / this.options.minBpm);
+
+    const scores: number[] = [];
+    let bestLag = -1;
+    for (let lag = minLag; lag <= maxLag + 1; lag++) {
+      let sum = 0;
+      for (let i = 0; i + lag < centered.length; i++) sum += centered[i] * centered[i + lag];
+      const bpm = hopRate * 60 / lag;
+      // Lean towards typical tempos so half- and double-time lags lose ties.
+      const prior = Math.exp(-0.5 * Math.log2(bpm / PREFERRED_BPM) ** 2);
+      scores[lag] = sum / (centered.length - lag) * prior;
+      if (lag <= maxLag && (bestLag === -1 || scores[lag] > scores[bestLag])) bestLag = lag;
+    }
+    if (bestLag === -1 || scores[bestLag] <= 0) return;
+
+    // Refine between hops with a parabola through the peak and its neighbours.
+    let lag = bestLag;
+    const before = scores[bestLag - 1];
+    const after = scores[bestLag + 1];
+    if (before !== undefined && after !== undefined) {
+      const curvature = before - 2 * scores[bestLag] + after;
+      if (curvature < 0) lag += 0.5 * (before - after) / curvature;
+    }
+
+    const bpm = hopRate * 60 / lag;
+    const previous = this._bpm;
+    // Settle gradually on small drifts, jump straight to a clearly different tempo.
+    this._bpm = previous !== null && Math.abs(bpm - previous) < 4
+      ? previous + (bpm - previous) * 0.3
+      : bpm;
+    if (previous === null || Math.round(previous) !== Math.round(this._bpm)) {
+      this.dispatchEvent(new CustomEvent<number | null>('tempo-changed', { detail: this._bpm }));
+    }
+  }
+}
+
+/** Runs a detector over a whole buffer, for offline analysis of decoded audio. */
+export function detectBeats(
+  samples: Float32Array,
+  sampleRate: number,
+  options: BeatDetectorOptions = DEFAULT_BEAT_DETECTOR_OPTIONS,
+): { beats: Beat[]; bpm: number | null } {
+  const detector = new BeatDetector(sampleRate, options);
+  const beats = detector.process(samples);
+  return { beats, bpm: detector.bpm };
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AudioChunk } from '@google/genai';
+import type { ChunkDrop, ChunkDropReason, ChunkReorder, ChunkStats } from '../types';
+import type { PcmFormat } from './pcm';
+import { PcmDecoder } from './PcmDecoder';
+
+/**
+ * Decodes every audio chunk of every server message and hands them to
+ * playback in the order they arrived, however the decodes finish. Each chunk
+ * gets a sequence number on arrival; a chunk that decodes early waits for
+ * the ones before it, and a chunk that cannot be decoded or played is skipped.
+ *
+ * Dispatches `chunk-dropped` with a ChunkDrop when chunks are discarded and
+ * `chunk-reordered` with a ChunkReorder when one has to wait, so lost audio
+ * shows up instead of passing as a network hiccup.
+ */
+export class ChunkQueue extends EventTarget {
+  private decoder = new PcmDecoder();
+  private format: PcmFormat;
+  private sampleRate: number;
+  private onChunk: (channels: Float32Array[], sequence: number) => void;
+
+  private nextSequence = 0;
+  private nextToPlay = 0;
+  /** Decoded chunks waiting for earlier ones; null marks a chunk to skip. */
+  private ready = new Map<number, Float32Array[] | null>();
+  /** Last sequence number played or deliberately skipped past, for gap counting. */
+  private lastContinuous = -1;
+  /** Bumped by flush() so decodes still in flight are ignored. */
+  private epoch = 0;
+  private counts: ChunkStats = { received: 0, played: 0, dropped: 0, reordered: 0, gaps: 0, lastSequence: -1 };
+
+  constructor(format: PcmFormat, sampleRate: number, onChunk: (channels: Float32Array[], sequence: number) => void) {
+    super();
+    this.format = format;
+    this.sampleRate = sampleRate;
+    this.onChunk = onChunk;
+  }
+
+  get stats(): ChunkStats {
+    return { ...this.counts };
+  }
+
+  /** Queues all chunks of a server message for decoding. */
+  push(chunks: AudioChunk[]) {
+    for (const chunk of chunks) {
+      const sequence = this.receive();
+      if (!chunk.data) {
+        this.skip(sequence, 'empty');
+        continue;
+      }
+      const epoch = this.epoch;
+      this.decoder.decode(chunk.data, this.format, this.sampleRate).then(
+        (channels) => {
+          if (epoch === this.epoch) this.settle(sequence, channels);
+        },
+        (e: Error) => {
+          if (epoch !== this.epoch) return;
+          console.error(`Could not decode audio chunk ${sequence}:`, e);
+          this.skip(sequence, 'decode-error');
+        },
+      );
+    }
+  }
+
+  /** Counts chunks that arrived while nothing was listening, without decoding them. */
+  discard(chunks: AudioChunk[], reason: ChunkDropReason) {
+    if (chunks.length === 0) return;
+    this.flush();
+    const first = this.nextSequence;
+    chunks.forEach(() => this.receive());
+    this.nextToPlay = this.nextSequence;
+    this.lastContinuous = this.nextSequence - 1;
+    this.dropped(first, chunks.length, reason);
+  }
+
+  /** Drops every chunk still decoding or waiting, e.g. on pause. */
+  flush() {
+    this.epoch++;
+    this.ready.clear();
+    const waiting = this.nextSequence - this.nextToPlay;
+    const first = this.nextToPlay;
+    this.nextToPlay = this.nextSequence;
+    this.lastContinuous = this.nextSequence - 1;
+    if (waiting > 0) this.dropped(first, waiting, 'flushed');
+  }
+
+  private receive() {
+    this.counts.received++;
+    return this.nextSequence++;
+  }
+
+  private skip(sequence: number, reason: ChunkDropReason) {
+    this.dropped(sequence, 1, reason);
+    this.settle(sequence, null);
+  }
+
+  private settle(sequence: number, channels: Float32Array[] | null) {
+    if (channels && sequence !== this.nextToPlay) {
+      this.counts.reordered++;
+      this.dispatchEvent(new CustomEvent<ChunkReorder>('chunk-reordered', {
+        detail: { sequence, waitingFor: this.nextToPlay, stats: this.stats },
+      }));
+    }
+    this.ready.set(sequence, channels);
+
+    while (this.ready.has(this.nextToPlay)) {
+      const next = this.nextToPlay++;
+      const decoded = this.ready.get(next)!;
+      this.ready.delete(next);
+      if (!decoded) continue;
+      if (next !== this.lastContinuous + 1) this.counts.gaps++;
+      this.lastContinuous = next;
+      this.counts.lastSequence = next;
+      // A chunk playback chokes on is lost on its own; the rest keep draining.
+      try {
+        this.onChunk(decoded, next);
+        this.counts.played++;
+      } catch (e) {
+        console.error(`Could not play audio chunk ${next}:`, e);
+        this.dropped(next, 1, 'play-error');
+      }
+    }
+  }
+
+  private dropped(sequence: number, count: number, reason: ChunkDropReason) {
+    this.counts.dropped += count;
+    this.dispatchEvent(new CustomEvent<ChunkDrop>('chunk-dropped', {
+      detail: { sequence, count, reason, stats: this.stats },
+    }));
+  }
+}
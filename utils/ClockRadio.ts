@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AlarmSettings, ClockCountdown, ClockSettings } from '../types';
+import { loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'boombox-clock';
+
+/** Lengths offered for the sleep timer, in minutes. */
+export const SLEEP_OPTIONS = [15, 30, 60];
+
+export const DEFAULT_CLOCK: ClockSettings = {
+  sleepFade: 30,
+  alarm: {
+    enabled: false,
+    time: '07:00',
+    // Empty wakes up to whatever station the dial is on.
+    station: '',
+    fadeIn: 60,
+  },
+};
+
+interface StoredClock {
+  settings: ClockSettings;
+  /** Epoch milliseconds at which the sleep timer runs out. */
+  sleepEndsAt: number | null;
+}
+
+/** Epoch milliseconds of the next time the local clock reads `time` (HH:MM) after `now`. */
+export function nextOccurrence(time: string, now: number): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  const next = new Date(now);
+  next.setHours(hours, minutes, 0, 0);
+  if (next.getTime() <= now) next.setDate(next.getDate() + 1);
+  return next.getTime();
+}
+
+/** Formats seconds as M:SS, or H:MM:SS from an hour up. */
+export function formatCountdown(seconds: number) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+/**
+ * Sleep timer and daily alarm of the boombox, kept in wall clock time so
+ * both survive a page refresh.
+ *
+ * Dispatches `sleep` with the fade-out in seconds when the sleep timer runs
+ * out, `alarm` with the AlarmSettings when the alarm goes off, and
+ * `countdown` with a ClockCountdown every second while either is set.
+ * Browsers may refuse to start audio without a user gesture, so an alarm in
+ * a freshly loaded page can stay silent until the page is clicked.
+ */
+export class ClockRadio extends EventTarget {
+  private state: StoredClock;
+  private nextAlarmAt: number | null = null;
+  private ticker: number | null = null;
+
+  constructor() {
+    super();
+    const stored = loadJson<Partial<StoredClock>>(STORAGE_KEY, {});
+    const settings = stored.settings ?? DEFAULT_CLOCK;
+    // A timer that ran out while the page was closed has nothing left to stop.
+    const sleepEndsAt = stored.sleepEndsAt && stored.sleepEndsAt > Date.now() ? stored.sleepEndsAt : null;
+    this.state = {
+      settings: { ...DEFAULT_CLOCK, ...settings, alarm: { ...DEFAULT_CLOCK.alarm, ...settings.alarm } },
+      sleepEndsAt,
+    };
+    this.scheduleAlarm();
+    this.sync();
+  }
+
+  get settings(): ClockSettings {
+    return this.state.settings;
+  }
+
+  get countdown(): ClockCountdown {
+    const now = Date.now();
+    const { sleepEndsAt } = this.state;
+    return {
+      sleep: sleepEndsAt === null ? null : Math.max(0, Math.ceil((sleepEndsAt - now) / 1000)),
+      alarm: this.nextAlarmAt === null ? null : Math.max(0, Math.ceil((this.nextAlarmAt - now) / 1000)),
+    };
+  }
+
+  /** Starts the sleep timer for `minutes`, or cancels it with null. */
+  setSleep(minutes: number | null) {
+    this.state = {
+      ...this.state,
+      sleepEndsAt: minutes === null ? null : Date.now() + minutes * 60 * 1000,
+    };
+    this.save();
+  }
+
+  update(changes: Partial<ClockSettings>) {
+    this.state = { ...this.state, settings: { ...this.state.settings, ...changes } };
+    this.scheduleAlarm();
+    this.save();
+  }
+
+  private scheduleAlarm() {
+    const { alarm } = this.state.settings;
+    this.nextAlarmAt = alarm.enabled ? nextOccurrence(alarm.time, Date.now()) : null;
+  }
+
+  private save() {
+    saveJson(STORAGE_KEY, this.state);
+    this.sync();
+  }
+
+  /** Ticks every second while a timer is set, so the countdown stays live. */
+  private sync() {
+    const isSet = this.state.sleepEndsAt !== null || this.nextAlarmAt !== null;
+    if (isSet && this.ticker === null) {
+      this.ticker = window.setInterval(() => this.tick(), 1000);
+    } else if (!isSet && this.ticker !== null) {
+      clearInterval(this.ticker);
+      this.ticker = null;
+    }
+    this.dispatchEvent(new CustomEvent<ClockCountdown>('countdown', { detail: this.countdown }));
+  }
+
+  private tick() {
+    const now = Date.now();
+    // Compare against the clock rather than counting ticks: background tabs
+    // throttle timers, and a late alarm is better than a missed one.
+    if (this.state.sleepEndsAt !== null && now >= this.state.sleepEndsAt) {
+      this.state = { ...this.state, sleepEndsAt: null };
+      saveJson(STORAGE_KEY, this.state);
+      this.dispatchEvent(new CustomEvent<number>('sleep', { detail: this.state.settings.sleepFade }));
+    }
+    if (this.nextAlarmAt !== null && now >= this.nextAlarmAt) {
+      // The alarm stays set and goes off again the next day.
+      this.scheduleAlarm();
+      this.dispatchEvent(new CustomEvent<AlarmSettings>('alarm', { detail: this.state.settings.alarm }));
+    }
+    this.sync();
+  }
+}
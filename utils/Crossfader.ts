@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { CrossfadeCurve, CrossfadeSettings } from '../types';
+
+/** Prompt weights by prompt id. */
+export type Weights = Map<string, number>;
+
+export const DEFAULT_CROSSFADE: CrossfadeSettings = {
+  duration: 1500,
+  curve: 'equal-power',
+};
+
+/**
+ * Minimum time between delivered frames, in milliseconds. Longer than the
+ * 200 ms throttle in `LiveMusicHelper.setWeightedPrompts`, so frames reach
+ * the session as they are produced instead of queueing behind it.
+ */
+export const FRAME_INTERVAL = 250;
+
+/** Gains of the outgoing and incoming side at `progress` (0-1) through a fade. */
+export function crossfadeGains(progress: number, curve: CrossfadeCurve): [number, number] {
+  const p = Math.max(0, Math.min(1, progress));
+  if (curve === 'equal-power') {
+    return [Math.cos(p * Math.PI / 2), Math.sin(p * Math.PI / 2)];
+  }
+  return [1 - p, p];
+}
+
+/** Mixes two weight sets; ids missing from either side count as silent. */
+export function blendWeights(from: Weights, to: Weights, progress: number, curve: CrossfadeCurve): Weights {
+  const [outGain, inGain] = crossfadeGains(progress, curve);
+  const weights: Weights = new Map();
+  for (const id of new Set([...from.keys(), ...to.keys()])) {
+    const weight = (from.get(id) ?? 0) * outGain + (to.get(id) ?? 0) * inGain;
+    // Snap float dust to silence so finished fades leave clean zeros.
+    weights.set(id, weight < 1e-6 ? 0 : weight);
+  }
+  return weights;
+}
+
+interface Fade {
+  from: Weights;
+  to: Weights;
+  start: number;
+}
+
+/**
+ * Paces prompt weight updates and fades between weight sets over time.
+ *
+ * Frames are delivered through `onFrame` at most once per FRAME_INTERVAL.
+ * Updates that arrive faster are coalesced, never dropped: the latest one is
+ * delivered at the next free slot, and a fade always ends with a frame that
+ * holds exactly its target weights. `settled` is false on the frames in the
+ * middle of a fade and true on the one the weights come to rest on.
+ */
+export class Crossfader {
+  settings: CrossfadeSettings;
+  private onFrame: (weights: Weights, settled: boolean) => void;
+  private fade: Fade | null = null;
+  private pending: Weights | null = null;
+  private timer: number | null = null;
+  private lastFrameTime = -Infinity;
+
+  constructor(onFrame: (weights: Weights, settled: boolean) => void, settings: CrossfadeSettings = DEFAULT_CROSSFADE) {
+    this.onFrame = onFrame;
+    this.settings = settings;
+  }
+
+  get isFading() {
+    return this.fade !== null;
+  }
+
+  /** Fades from `from` to `to` over the configured duration. */
+  fadeTo(from: Weights, to: Weights) {
+    if (this.settings.duration <= 0) {
+      this.set(to);
+      return;
+    }
+    this.fade = { from, to, start: performance.now() };
+    this.pending = null;
+    this.schedule();
+  }
+
+  /** Delivers `weights` as soon as the pace allows, cancelling any fade. */
+  set(weights: Weights) {
+    this.fade = null;
+    this.pending = weights;
+    this.schedule();
+  }
+
+  /** Drops any pending frame or fade. */
+  cancel() {
+    this.fade = null;
+    this.pending = null;
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private schedule() {
+    if (this.timer !== null) return;
+    const wait = Math.max(0, this.lastFrameTime + FRAME_INTERVAL - performance.now());
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.tick();
+    }, wait);
+  }
+
+  private tick() {
+    const now = performance.now();
+    let weights: Weights;
+    if (this.fade) {
+      const { from, to, start } = this.fade;
+      const progress = Math.min(1, (now - start) / this.settings.duration);
+      weights = progress >= 1 ? to : blendWeights(from, to, progress, this.settings.curve);
+      if (progress >= 1) this.fade = null;
+    } else if (this.pending) {
+      weights = this.pending;
+      this.pending = null;
+    } else {
+      return;
+    }
+
+    this.lastFrameTime = now;
+    this.onFrame(weights, this.fade === null);
+    if (this.fade) this.schedule();
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { BufferHealth } from '../types';
+
+export interface JitterBufferOptions {
+  /** Lead time used before any arrivals have been measured, in seconds. */
+  initialLead: number;
+  minLead: number;
+  maxLead: number;
+  /** Lead time kept per second of measured jitter. */
+  jitterMultiplier: number;
+  /** Factor applied to the target lead after every underrun. */
+  underrunGrowth: number;
+}
+
+export const DEFAULT_JITTER_BUFFER_OPTIONS: JitterBufferOptions = {
+  initialLead: 2,
+  minLead: 0.5,
+  maxLead: 6,
+  jitterMultiplier: 4,
+  underrunGrowth: 1.5,
+};
+
+/** Smoothing for the running jitter estimate, as in RFC 3550. */
+const JITTER_GAIN = 1 / 16;
+/** How quickly the target relaxes back down when the network calms. */
+const SHRINK_RATE = 0.02;
+
+/**
+ * Tracks how irregularly audio chunks arrive and derives how far ahead of
+ * the playhead they should be scheduled. The target grows immediately when
+ * jitter rises or playback underruns, and shrinks slowly when it calms down.
+ */
+export class JitterBuffer {
+  private options: JitterBufferOptions;
+  private lastArrival: number | null = null;
+  private jitter = 0;
+  private underruns = 0;
+  target: number;
+
+  constructor(options: JitterBufferOptions = DEFAULT_JITTER_BUFFER_OPTIONS) {
+    this.options = options;
+    this.target = options.initialLead;
+  }
+
+  /** Records a chunk arriving at `arrival` (seconds) holding `duration` seconds of audio. */
+  onChunk(arrival: number, duration: number) {
+    if (this.lastArrival !== null) {
+      // Chunks should arrive one chunk-duration apart; anything else is jitter.
+      const deviation = Math.abs(arrival - this.lastArrival - duration);
+      this.jitter += (deviation - this.jitter) * JITTER_GAIN;
+    }
+    this.lastArrival = arrival;
+
+    const desired = this.clamp(this.options.minLead + this.jitter * this.options.jitterMultiplier);
+    if (desired > this.target) {
+      this.target = desired;
+    } else {
+      this.target -= (this.target - desired) * SHRINK_RATE;
+    }
+  }
+
+  onUnderrun() {
+    this.underruns++;
+    this.target = this.clamp(this.target * this.options.underrunGrowth);
+  }
+
+  /** Forgets the last arrival, e.g. after a pause, so the gap does not count as jitter. */
+  reset() {
+    this.lastArrival = null;
+  }
+
+  health(lead: number): BufferHealth {
+    return {
+      lead,
+      target: this.target,
+      jitter: this.jitter,
+      underruns: this.underruns,
+    };
+  }
+
+  private clamp(lead: number) {
+    return Math.max(this.options.minLead, Math.min(this.options.maxLead, lead));
+  }
+}
@@ -2,107 +2,318 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { PlaybackState, Prompt } from '../types';
-import type { AudioChunk, GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
-import { decode, decodeAudioData } from './audio';
+import type { BufferHealth, MusicConfig, PlaybackState, Prompt, ScheduledAudio } from '../types';
+import type { LiveMusicFilteredPrompt } from '@google/genai';
+import { backoffDelay, DEFAULT_BACKOFF_POLICY, type BackoffPolicy } from './backoff';
+import { ChunkQueue } from './ChunkQueue';
+import { JitterBuffer } from './JitterBuffer';
+import { MasterChain } from './MasterChain';
+import { MixerBus } from './MixerBus';
+import type { MusicServerMessage, MusicSession, MusicTransport } from './MusicTransport';
+import { channelsToAudioBuffer, MUSIC_PCM } from './pcm';
+import { RingBufferPlayer } from './RingBufferPlayer';
 import { throttle } from './throttle';
 
+/** Config fields the model only picks up after `resetContext`. */
+const CONTEXT_RESET_KEYS: (keyof MusicConfig)[] = ['bpm', 'scale'];
+
+/** Length of the fades around an underrun, in seconds. */
+const UNDERRUN_FADE = 0.03;
+/** Time constant of the music fading under a lost signal, in seconds. */
+const SIGNAL_FADE = 0.1;
+
+/** True when both configs set the same fields to the same values. */
+function isSameConfig(a: MusicConfig, b: MusicConfig) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as (keyof MusicConfig)[]);
+  return [...keys].every((key) => a[key] === b[key]);
+}
+
 export class LiveMusicHelper extends EventTarget {
 
-  private ai: GoogleGenAI;
-  private model: string;
+  private transport: MusicTransport;
 
-  private session: LiveMusicSession | null = null;
-  private sessionPromise: Promise<LiveMusicSession> | null = null;
+  private session: MusicSession | null = null;
+  private sessionPromise: Promise<MusicSession> | null = null;
 
   private connectionError = true;
+  /** Bumped for every new connection so callbacks from stale sockets are ignored. */
+  private connectionId = 0;
+  private reconnectPolicy: BackoffPolicy;
+  private reconnectAttempt = 0;
+  private reconnectTimer: number | null = null;
 
   private filteredPrompts = new Set<string>();
   private nextStartTime = 0;
-  private bufferTime = 2;
+  private jitterBuffer = new JitterBuffer();
+  /** Worklet player; null while loading and wherever AudioWorklet is unavailable. */
+  private player: RingBufferPlayer | null = null;
+  /** Gain of the last scheduled chunk, whose tail fades out unless another chunk follows in time. */
+  private lastChunkGain: GainNode | null = null;
 
   public readonly audioContext: AudioContext;
+  /** Decodes and orders incoming audio; listen here for dropped or reordered chunks. */
+  public readonly chunks: ChunkQueue;
   public extraDestination: AudioNode | null = null;
+  /** Bus shared with the announcer, so the music can duck under the DJ. */
+  public readonly mixer: MixerBus;
+  /** Volume, EQ and limiter after the mixer. */
+  public readonly master: MasterChain;
 
   private outputNode: GainNode;
+  /** Mutes the music while every audible station has been filtered. */
+  private signalNode: GainNode;
+  /** Music level; carries the slow sleep and alarm fades. */
+  private musicNode: GainNode;
+  private sleepTimer: number | null = null;
   private playbackState: PlaybackState = 'stopped';
 
   private prompts: Map<string, Prompt>;
+  private musicConfig: MusicConfig = {};
+  private appliedMusicConfig: MusicConfig = {};
 
-  constructor(ai: GoogleGenAI, model: string) {
+  /**
+   * The audio context can be passed in, e.g. an OfflineAudioContext or a
+   * scripted fake clock, to drive the scheduling without real playback.
+   */
+  constructor(
+    transport: MusicTransport,
+    reconnectPolicy: BackoffPolicy = DEFAULT_BACKOFF_POLICY,
+    audioContext: AudioContext = new AudioContext({ sampleRate: 48000 }),
+  ) {
     super();
-    this.ai = ai;
-    this.model = model;
+    this.transport = transport;
+    this.reconnectPolicy = reconnectPolicy;
     this.prompts = new Map();
-    this.audioContext = new AudioContext({ sampleRate: 48000 });
+    this.audioContext = audioContext;
     this.outputNode = this.audioContext.createGain();
+    this.signalNode = this.audioContext.createGain();
+    this.musicNode = this.audioContext.createGain();
+    this.signalNode.connect(this.musicNode);
+    this.master = new MasterChain(this.audioContext);
+    this.mixer = new MixerBus(this.audioContext, this.master.input);
+    this.musicNode.connect(this.mixer.music);
+    this.chunks = new ChunkQueue(MUSIC_PCM, this.audioContext.sampleRate, (channels) => this.playChunk(channels));
+    RingBufferPlayer.create(this.audioContext, MUSIC_PCM.numChannels, UNDERRUN_FADE)
+      .then((player) => {
+        this.player = player;
+        // Loading normally wins the race against the first chunk; if it
+        // doesn't, restart the schedule so the worklet starts a fresh run.
+        this.nextStartTime = 0;
+        if (!this.isIdle) player.node.connect(this.outputNode);
+      })
+      .catch((e) => console.warn('AudioWorklet unavailable, scheduling buffer sources instead:', e));
   }
 
-  private getSession(): Promise<LiveMusicSession> {
+  private getSession(): Promise<MusicSession> {
     if (!this.sessionPromise) this.sessionPromise = this.connect();
     return this.sessionPromise;
   }
 
-  private async connect(): Promise<LiveMusicSession> {
-    this.sessionPromise = this.ai.live.music.connect({
-      model: this.model,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          if (e.setupComplete) {
-            this.connectionError = false;
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text!])
-            this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
+  private async connect(): Promise<MusicSession> {
+    const connectionId = ++this.connectionId;
+    this.sessionPromise = this.transport.connect({
+      onmessage: (e: MusicServerMessage) => {
+        if (connectionId !== this.connectionId) return;
+        if (e.setupComplete) {
+          this.connectionError = false;
+        }
+        // Only a session that answers counts as recovered; one that accepts
+        // the socket and drops it again keeps using up attempts.
+        if (e.setupComplete || e.serverContent?.audioChunks) {
+          this.reconnectAttempt = 0;
+        }
+        if (e.filteredPrompt) {
+          this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text!])
+          this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
+        }
+        const audioChunks = e.serverContent?.audioChunks;
+        if (audioChunks) {
+          if (this.isIdle) {
+            this.chunks.discard(audioChunks, 'idle');
+          } else {
+            this.chunks.push(audioChunks);
           }
-          if (e.serverContent?.audioChunks) {
-            await this.processAudioChunks(e.serverContent.audioChunks);
-          }
-        },
-        onerror: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
-        onclose: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
+        }
+      },
+      onerror: () => {
+        if (connectionId !== this.connectionId) return;
+        this.handleConnectionLost();
+      },
+      onclose: () => {
+        if (connectionId !== this.connectionId) return;
+        this.handleConnectionLost();
       },
     });
     return this.sessionPromise;
   }
 
+  private handleConnectionLost() {
+    this.connectionError = true;
+    // Invalidate the dead socket so its remaining callbacks are ignored.
+    this.connectionId++;
+    this.session = null;
+    this.sessionPromise = null;
+    this.appliedMusicConfig = {};
+    // Chunks still decoding belong to the dead session, as on pause or stop.
+    this.chunks.flush();
+
+    if (this.playbackState === 'paused' || this.playbackState === 'stopped') {
+      // Nothing is audible; the next play() opens a fresh session.
+      return;
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer) return;
+
+    if (this.reconnectAttempt >= this.reconnectPolicy.maxAttempts) {
+      const attempts = this.reconnectAttempt;
+      this.stop();
+      this.dispatchEvent(new CustomEvent('error', {
+        detail: `Connection lost after ${attempts} reconnect attempts, please restart audio.`,
+      }));
+      return;
+    }
+
+    this.setPlaybackState('reconnecting');
+    this.nextStartTime = 0;
+    this.jitterBuffer.reset();
+    const delay = backoffDelay(this.reconnectPolicy, this.reconnectAttempt);
+    this.reconnectAttempt++;
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect();
+    }, delay);
+  }
+
+  private async reconnect() {
+    // play() may have opened a session already; that one is not ours to stop.
+    const ownsSession = this.sessionPromise === null;
+    const sessionPromise = this.getSession();
+    try {
+      const session = await sessionPromise;
+      if (sessionPromise !== this.sessionPromise) {
+        // stop() or another drop retired this connection while it opened.
+        if (ownsSession) session.stop();
+        return;
+      }
+      this.session = session;
+      // Paused, or taken over by play(), while connecting: they drive it from here.
+      if (this.playbackState !== 'reconnecting') return;
+      await this.replayState(session);
+      session.play();
+      this.setPlaybackState('loading');
+    } catch (e) {
+      console.error('Reconnect failed:', e);
+      if (!ownsSession || sessionPromise !== this.sessionPromise) return;
+      this.connectionId++;
+      this.session = null;
+      this.sessionPromise = null;
+      if (this.playbackState !== 'reconnecting') return;
+      this.scheduleReconnect();
+    }
+  }
+
+  /** Sends the last prompts and generation config to a fresh session. */
+  private async replayState(session: MusicSession) {
+    const weightedPrompts = this.activePrompts.map((p) => {
+      return {text: p.text, weight: p.weight};
+    });
+    if (weightedPrompts.length > 0) {
+      await session.setWeightedPrompts({ weightedPrompts });
+    }
+    await session.setMusicGenerationConfig({
+      musicGenerationConfig: { ...this.musicConfig },
+    });
+    this.appliedMusicConfig = this.musicConfig;
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
+  }
+
+  /** Paused or stopped, so incoming audio has nowhere to go. */
+  public get isIdle() {
+    return this.playbackState === 'paused' || this.playbackState === 'stopped';
+  }
+
   private setPlaybackState(state: PlaybackState) {
     this.playbackState = state;
     this.dispatchEvent(new CustomEvent('playback-state-changed', { detail: state }));
   }
 
-  private async processAudioChunks(audioChunks: AudioChunk[]) {
-    if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
-    const audioBuffer = await decodeAudioData(
-      decode(audioChunks[0].data!),
-      this.audioContext,
-      48000,
-      2,
-    );
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.outputNode);
-    if (this.nextStartTime === 0) {
-      this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
-      setTimeout(() => {
-        this.setPlaybackState('playing');
-      }, this.bufferTime * 1000);
-    }
-    if (this.nextStartTime < this.audioContext.currentTime) {
+  /** Schedules the next decoded chunk; ChunkQueue calls this in server order. */
+  private playChunk(channels: Float32Array[]) {
+    const audioBuffer = channelsToAudioBuffer(channels, this.audioContext);
+    const now = this.audioContext.currentTime;
+    this.jitterBuffer.onChunk(now, audioBuffer.duration);
+
+    if (this.nextStartTime !== 0 && this.nextStartTime < now) {
+      // Underrun: the previous chunk has already faded out. Rebuild the lead
+      // and fade this chunk in rather than dropping it.
+      this.jitterBuffer.onUnderrun();
       this.setPlaybackState('loading');
       this.nextStartTime = 0;
-      return;
     }
-    source.start(this.nextStartTime);
+
+    const isRestart = this.nextStartTime === 0;
+    if (isRestart) {
+      const lead = this.jitterBuffer.target;
+      this.nextStartTime = now + lead;
+      setTimeout(() => {
+        if (this.playbackState === 'loading') this.setPlaybackState('playing');
+      }, lead * 1000);
+    }
+
+    if (this.player) {
+      this.player.write(channels, isRestart ? this.nextStartTime : null);
+    } else {
+      this.scheduleChunk(audioBuffer, this.nextStartTime, isRestart);
+    }
+    this.dispatchEvent(new CustomEvent<ScheduledAudio>('audio-scheduled', {
+      detail: { buffer: audioBuffer, startTime: this.nextStartTime },
+    }));
     this.nextStartTime += audioBuffer.duration;
+
+    this.dispatchEvent(new CustomEvent<BufferHealth>('buffer-health', {
+      detail: this.jitterBuffer.health(this.nextStartTime - now),
+    }));
+  }
+
+  /** Fallback for browsers without AudioWorklet: one source node per chunk. */
+  private scheduleChunk(buffer: AudioBuffer, startTime: number, fadeIn: boolean) {
+    const source = this.audioContext.createBufferSource();
+    source.buffer = buffer;
+    const gain = this.audioContext.createGain();
+    source.connect(gain);
+    gain.connect(this.outputNode);
+
+    if (fadeIn) {
+      gain.gain.setValueAtTime(0, startTime);
+      gain.gain.linearRampToValueAtTime(1, startTime + UNDERRUN_FADE);
+    } else if (this.lastChunkGain) {
+      // This chunk continues the previous one, so cancel the previous tail fade.
+      this.lastChunkGain.gain.cancelScheduledValues(startTime - UNDERRUN_FADE);
+      this.lastChunkGain.gain.setValueAtTime(1, startTime - UNDERRUN_FADE);
+    }
+
+    // Fade out at the end in case the next chunk arrives too late.
+    const endTime = startTime + buffer.duration;
+    gain.gain.setValueAtTime(1, endTime - UNDERRUN_FADE);
+    gain.gain.linearRampToValueAtTime(0, endTime);
+
+    source.onended = () => {
+      source.disconnect();
+      gain.disconnect();
+      if (this.lastChunkGain === gain) this.lastChunkGain = null;
+    };
+    source.start(startTime);
+    this.lastChunkGain = gain;
   }
 
   public get activePrompts() {
@@ -112,8 +323,27 @@ export class LiveMusicHelper extends EventTarget {
       })
   }
 
+  /** True when stations are turned up but the model has filtered all of them. */
+  private get hasNoSignal() {
+    return this.activePrompts.length === 0
+      && [...this.prompts.values()].some((p) => p.weight !== 0);
+  }
+
+  /** Fades the music out while there is no signal and back in when it returns. */
+  private updateSignal() {
+    const gain = this.signalNode.gain;
+    const now = this.audioContext.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setTargetAtTime(this.hasNoSignal ? 0 : 1, now, SIGNAL_FADE);
+  }
+
   public readonly setWeightedPrompts = throttle(async (prompts: Map<string, Prompt>) => {
     this.prompts = prompts;
+    this.updateSignal();
+
+    // Tuned to a filtered station: keep the session on its last prompts
+    // under the static, so the music comes back when the dial moves on.
+    if (this.hasNoSignal) return;
 
     if (this.activePrompts.length === 0) {
       this.dispatchEvent(new CustomEvent('error', { detail: 'There needs to be one active prompt to play.' }));
@@ -132,41 +362,131 @@ export class LiveMusicHelper extends EventTarget {
       await this.session.setWeightedPrompts({
         weightedPrompts,
       });
-    } catch (e: any) {
-      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    } catch (e) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e instanceof Error ? e.message : String(e) }));
       this.pause();
     }
   }, 200);
 
-  public async play() {
+  public readonly setMusicGenerationConfig = throttle(async (config: MusicConfig) => {
+    this.musicConfig = config;
+
+    // store the config to send once connected, like the prompts
+    if (!this.session || isSameConfig(config, this.appliedMusicConfig)) return;
+
+    const needsReset = CONTEXT_RESET_KEYS.some((key) => config[key] !== this.appliedMusicConfig[key]);
+    try {
+      await this.session.setMusicGenerationConfig({
+        musicGenerationConfig: { ...config },
+      });
+      this.appliedMusicConfig = config;
+      if (needsReset) {
+        this.session.resetContext();
+        this.dispatchEvent(new CustomEvent('context-reset'));
+      }
+    } catch (e) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e instanceof Error ? e.message : String(e) }));
+    }
+  }, 200);
+
+  /** Starts playback, fading the music in over `fadeIn` seconds when given. */
+  public async play(fadeIn = 0) {
+    this.cancelSleep();
+    this.rampMusic(fadeIn > 0 ? 0 : 1, 0);
     this.setPlaybackState('loading');
     this.session = await this.getSession();
-    await this.setWeightedPrompts(this.prompts);
+    // A call still waiting in the throttle holds newer prompts than this.prompts.
+    await (this.setWeightedPrompts.pending
+      ? this.setWeightedPrompts.flush()
+      : this.setWeightedPrompts(this.prompts));
+    if (!isSameConfig(this.appliedMusicConfig, this.musicConfig)) {
+      // A fresh session has no context yet, so the config applies without a reset.
+      await this.session.setMusicGenerationConfig({
+        musicGenerationConfig: { ...this.musicConfig },
+      });
+      this.appliedMusicConfig = this.musicConfig;
+    }
     this.audioContext.resume();
     this.session.play();
-    this.outputNode.connect(this.audioContext.destination);
+    this.outputNode.connect(this.signalNode);
     if (this.extraDestination) this.outputNode.connect(this.extraDestination);
+    if (this.player) {
+      // pause() swapped the output node; the old one has faded out by now.
+      this.player.node.disconnect();
+      this.player.node.connect(this.outputNode);
+    }
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
+    // A sleep timer set while loading has taken over the music level.
+    if (fadeIn > 0 && this.sleepTimer === null) this.rampMusic(1, fadeIn);
+  }
+
+  /** Fades the music out over `duration` seconds, then pauses. */
+  public sleep(duration: number) {
+    this.cancelSleep();
+    this.rampMusic(0, duration);
+    this.sleepTimer = window.setTimeout(() => {
+      this.sleepTimer = null;
+      this.pause();
+    }, duration * 1000);
+  }
+
+  private cancelSleep() {
+    if (this.sleepTimer) {
+      clearTimeout(this.sleepTimer);
+      this.sleepTimer = null;
+    }
+  }
+
+  /** Ramps the music level to `level` over `duration` seconds, from wherever it is now. */
+  private rampMusic(level: number, duration: number) {
+    const gain = this.musicNode.gain;
+    const now = this.audioContext.currentTime;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(duration > 0 ? gain.value : level, now);
+    if (duration > 0) gain.linearRampToValueAtTime(level, now + duration);
   }
 
   public pause() {
+    this.cancelSleep();
+    // The next play() connects on its own; a pending retry would race it.
+    this.cancelReconnect();
     if (this.session) this.session.pause();
+    this.player?.flush();
+    this.chunks.flush();
     this.setPlaybackState('paused');
     this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.1);
     this.nextStartTime = 0;
+    this.jitterBuffer.reset();
     this.outputNode = this.audioContext.createGain();
   }
 
   public stop() {
+    this.cancelSleep();
+    this.cancelReconnect();
+    // Ignore the close callback triggered by our own stop.
+    this.connectionId++;
     if (this.session) this.session.stop();
+    this.chunks.flush();
     this.setPlaybackState('stopped');
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
     this.nextStartTime = 0;
+    this.jitterBuffer.reset();
     this.session = null;
     this.sessionPromise = null;
+    this.appliedMusicConfig = {};
+  }
+
+  /** The music before it is mixed with the DJ, for taps such as recording. */
+  public get output(): AudioNode {
+    return this.musicNode;
+  }
+
+  /** Sets the master output volume (0-1) without affecting the fade in/out. */
+  public setVolume(volume: number) {
+    this.master.update({ volume });
   }
 
   public async playPause() {
@@ -177,6 +497,7 @@ export class LiveMusicHelper extends EventTarget {
       case 'stopped':
         return this.play();
       case 'loading':
+      case 'reconnecting':
         return this.stop();
     }
   }
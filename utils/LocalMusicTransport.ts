@@ -0,0 +1,340 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  LiveMusicGenerationConfig,
+  LiveMusicSetConfigParameters,
+  LiveMusicSetWeightedPromptsParameters,
+  WeightedPrompt,
+} from '@google/genai';
+import { encode } from './audio';
+import type { MusicCallbacks, MusicServerMessage, MusicSession, MusicTransport } from './MusicTransport';
+
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+
+type Wave = 'sine' | 'triangle' | 'square' | 'saw';
+
+/** Procedural stand-in for a genre: a drum pattern, a bass line and a lead. */
+export interface SynthPattern {
+  bpm: number;
+  /** Root note of the bass line, in Hz. */
+  root: number;
+  /** Semitones of the scale the bass and lead walk. */
+  scale: number[];
+  wave: Wave;
+  /** The 16 steps of a bar, 1 where the kick hits. */
+  kick: number[];
+  /** Loudness of the off-beat hi-hats, 0-1. */
+  hats: number;
+  /** Loudness of a 16th-note arpeggio, 0-1; 0 holds pad chords instead. */
+  arp: number;
+}
+
+const SCALES = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  minor: [0, 2, 3, 5, 7, 8, 10],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  pentatonic: [0, 3, 5, 7, 10],
+};
+
+const KICKS = {
+  fourOnFloor: [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0],
+  halfTime: [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0],
+  breakbeat: [1, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0, 0],
+  bossa: [1, 0, 0, 1, 0, 0, 1, 0, 1, 0, 0, 1, 0, 0, 1, 0],
+};
+
+const WAVES: Wave[] = ['sine', 'triangle', 'square', 'saw'];
+
+/** Scale degrees of the bass note for each bar of a four-bar loop. */
+const PROGRESSION = [0, 5, 3, 4];
+
+/** Nudges the random patterns towards genres named in the prompt text. */
+const GENRE_HINTS: [RegExp, Partial<SynthPattern>][] = [
+  [/drum ?(and|&|n) ?bass|jungle|dnb/, { bpm: 174, kick: KICKS.breakbeat, hats: 0.9 }],
+  [/dubstep/, { bpm: 140, kick: KICKS.halfTime, wave: 'saw' }],
+  [/chip/, { wave: 'square', arp: 0.9 }],
+  [/bossa|samba/, { bpm: 126, kick: KICKS.bossa, wave: 'sine', scale: SCALES.major }],
+  [/funk|disco/, { bpm: 110, kick: KICKS.fourOnFloor, scale: SCALES.dorian }],
+  [/punk|thrash|metal/, { bpm: 180, wave: 'saw', hats: 1 }],
+  [/string|lush|ambient|shoegaze|chill/, { arp: 0, hats: 0.2 }],
+  [/arpeggi/, { arp: 1 }],
+  [/kick|house|techno/, { kick: KICKS.fourOnFloor }],
+  [/trip ?hop|lo-?fi/, { bpm: 84, kick: KICKS.halfTime }],
+  [/k ?pop/, { bpm: 120, scale: SCALES.major }],
+  [/soul|jazz/, { bpm: 92, scale: SCALES.dorian, wave: 'triangle' }],
+  [/staccato/, { arp: 0.8, wave: 'square' }],
+];
+
+/** FNV-1a hash, so the same prompt always gets the same pattern. */
+function hashString(text: string) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Small seeded PRNG returning floats in [0, 1). */
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** The procedural pattern that stands in for a prompt. */
+export function patternFor(text: string): SynthPattern {
+  const key = text.trim().toLowerCase();
+  const random = mulberry32(hashString(key));
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+  const pattern: SynthPattern = {
+    bpm: 80 + Math.round(random() * 80),
+    // Somewhere in the octave above E1.
+    root: 41.2 * Math.pow(2, Math.floor(random() * 12) / 12),
+    scale: pick(Object.values(SCALES)),
+    wave: pick(WAVES),
+    kick: pick(Object.values(KICKS)),
+    hats: random(),
+    arp: random() < 0.5 ? 0 : 0.4 + random() * 0.6,
+  };
+  for (const [hint, overrides] of GENRE_HINTS) {
+    if (hint.test(key)) Object.assign(pattern, overrides);
+  }
+  return pattern;
+}
+
+function oscillator(wave: Wave, phase: number) {
+  const t = phase - Math.floor(phase);
+  switch (wave) {
+    case 'sine': return Math.sin(2 * Math.PI * t);
+    case 'triangle': return 1 - 4 * Math.abs(t - 0.5);
+    case 'square': return t < 0.5 ? 1 : -1;
+    case 'saw': return 2 * t - 1;
+  }
+}
+
+/** Deterministic white noise for a frame number, in [-1, 1). */
+function noise(frame: number) {
+  let x = Math.imul(frame ^ 0x9e3779b9, 0x85ebca6b);
+  x ^= x >>> 13;
+  x = Math.imul(x, 0xc2b2ae35);
+  x ^= x >>> 16;
+  return (x >>> 0) / 2147483648 - 1;
+}
+
+function semitones(root: number, steps: number) {
+  return root * Math.pow(2, steps / 12);
+}
+
+/** Semitone offset of a scale degree, counting on into higher octaves. */
+function degree(scale: number[], n: number) {
+  return scale[n % scale.length] + 12 * Math.floor(n / scale.length);
+}
+
+/**
+ * Renders `frames` of interleaved 48 kHz stereo 16-bit PCM, starting
+ * `startFrame` frames into the stream, for a weighted blend of prompts.
+ * The output depends only on its arguments, so chunks join seamlessly and
+ * renders are reproducible.
+ */
+export function renderPcm(
+  prompts: WeightedPrompt[],
+  config: LiveMusicGenerationConfig,
+  startFrame: number,
+  frames: number,
+): Int16Array {
+  const pcm = new Int16Array(frames * CHANNELS);
+  const active = prompts.filter((p) => p.text && (p.weight ?? 0) > 0);
+  const total = active.reduce((sum, p) => sum + p.weight!, 0);
+  if (total === 0) return pcm;
+
+  const voices = active
+    .map((p) => ({ pattern: patternFor(p.text!), weight: p.weight! / total }))
+    .sort((a, b) => b.weight - a.weight);
+  // One shared tempo keeps blended patterns in step, as the model would.
+  const bpm = config.bpm ?? voices[0].pattern.bpm;
+  const density = config.density ?? 0.5;
+  const brightness = config.brightness ?? 0.5;
+  const stepLength = 60 / bpm / 4;
+
+  for (let i = 0; i < frames; i++) {
+    const frame = startFrame + i;
+    const t = frame / SAMPLE_RATE;
+    const stepPosition = t / stepLength;
+    const step = Math.floor(stepPosition);
+    const sinceStep = (stepPosition - step) * stepLength;
+    const sixteenth = step % 16;
+    const bar = Math.floor(step / 16);
+    const sinceEighth = sinceStep + (step % 2) * stepLength;
+
+    let left = 0;
+    let right = 0;
+    for (const { pattern, weight } of voices) {
+      const chord = PROGRESSION[bar % PROGRESSION.length];
+      let center = 0;
+
+      if (pattern.kick[sixteenth]) {
+        // Pitch drops from 150 Hz to 50 Hz; integrate the sweep for the phase.
+        const phase = 50 * sinceStep + 100 * (1 - Math.exp(-30 * sinceStep)) / 30;
+        center += Math.sin(2 * Math.PI * phase) * Math.exp(-8 * sinceStep) * 0.9;
+      }
+
+      const bassFrequency = semitones(pattern.root, degree(pattern.scale, chord));
+      center += oscillator(pattern.wave === 'saw' ? 'saw' : 'triangle', bassFrequency * t)
+        * Math.exp(-6 * sinceEighth) * 0.35;
+
+      let hat = 0;
+      if (sixteenth % 4 === 2) {
+        hat = noise(frame) * Math.exp(-60 * sinceStep) * pattern.hats * (0.15 + density * 0.3);
+      }
+
+      let lead = 0;
+      if (pattern.arp > 0) {
+        const note = degree(pattern.scale, chord + [0, 2, 4, 7][sixteenth % 4]);
+        lead = oscillator(pattern.wave, semitones(pattern.root * 4, note) * t)
+          * Math.exp(-12 * sinceStep) * pattern.arp * (0.1 + density * 0.2);
+      } else {
+        for (const n of [0, 2, 4]) {
+          lead += oscillator(pattern.wave, semitones(pattern.root * 4, degree(pattern.scale, chord + n)) * t);
+        }
+        lead *= 0.04 * (1 + 0.3 * Math.sin(2 * Math.PI * 0.25 * t));
+      }
+      lead *= 0.5 + brightness;
+
+      // Hats sit to the right, the lead swaps sides every step.
+      const leadPan = sixteenth % 2 === 0 ? 0.35 : 0.65;
+      left += weight * (center + hat * 0.3 + lead * (1 - leadPan));
+      right += weight * (center + hat * 0.7 + lead * leadPan);
+    }
+
+    // Soft clip rather than wrap when layers pile up.
+    pcm[i * 2] = Math.round(Math.tanh(left * 0.8) * 32767);
+    pcm[i * 2 + 1] = Math.round(Math.tanh(right * 0.8) * 32767);
+  }
+  return pcm;
+}
+
+export interface LocalMusicOptions {
+  /** Seconds of audio per chunk. */
+  chunkSeconds: number;
+  /** Chunks sent straight away on play, before pacing at real time. */
+  leadChunks: number;
+  /** Prompts containing any of these words are filtered, to exercise the NO SIGNAL path. */
+  blockedWords: string[];
+}
+
+export const DEFAULT_LOCAL_MUSIC_OPTIONS: LocalMusicOptions = {
+  chunkSeconds: 2,
+  leadChunks: 2,
+  blockedWords: [],
+};
+
+/** A session of the local backend; see `LocalMusicTransport`. */
+class LocalMusicSession implements MusicSession {
+  private callbacks: MusicCallbacks;
+  private options: LocalMusicOptions;
+  private prompts: WeightedPrompt[] = [];
+  private config: LiveMusicGenerationConfig = {};
+  /** Tempo in use; like the model, a new bpm only applies after a context reset. */
+  private bpm: number | undefined;
+  private frame = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private closed = false;
+
+  constructor(callbacks: MusicCallbacks, options: LocalMusicOptions) {
+    this.callbacks = callbacks;
+    this.options = options;
+    this.send({ setupComplete: {} });
+  }
+
+  async setWeightedPrompts({ weightedPrompts }: LiveMusicSetWeightedPromptsParameters) {
+    this.assertOpen();
+    const allowed: WeightedPrompt[] = [];
+    for (const prompt of weightedPrompts) {
+      const text = prompt.text?.toLowerCase() ?? '';
+      const blocked = this.options.blockedWords.find((word) => text.includes(word.toLowerCase()));
+      if (blocked) {
+        this.send({
+          filteredPrompt: { text: prompt.text, filteredReason: `"${blocked}" is blocked by the local music backend.` },
+        });
+      } else {
+        allowed.push(prompt);
+      }
+    }
+    this.prompts = allowed;
+  }
+
+  async setMusicGenerationConfig({ musicGenerationConfig }: LiveMusicSetConfigParameters) {
+    this.assertOpen();
+    this.config = { ...musicGenerationConfig };
+    if (this.frame === 0) this.bpm = this.config.bpm;
+  }
+
+  play() {
+    if (this.closed || this.timer !== null) return;
+    for (let i = 0; i < this.options.leadChunks; i++) this.sendChunk();
+    this.timer = setInterval(() => this.sendChunk(), this.options.chunkSeconds * 1000);
+  }
+
+  pause() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  stop() {
+    this.pause();
+    if (this.closed) return;
+    this.closed = true;
+    this.callbacks.onclose?.(new Event('close'));
+  }
+
+  resetContext() {
+    this.bpm = this.config.bpm;
+    this.frame = 0;
+  }
+
+  private assertOpen() {
+    if (this.closed) throw new Error('The local music session is closed.');
+  }
+
+  private sendChunk() {
+    const frames = Math.round(this.options.chunkSeconds * SAMPLE_RATE);
+    const pcm = renderPcm(this.prompts, { ...this.config, bpm: this.bpm }, this.frame, frames);
+    this.frame += frames;
+    this.send({
+      serverContent: {
+        audioChunks: [{ data: encode(new Uint8Array(pcm.buffer)), mimeType: `audio/pcm;rate=${SAMPLE_RATE};channels=${CHANNELS}` }],
+      },
+    });
+  }
+
+  /** Delivers a message asynchronously, as a socket would. */
+  private send(message: MusicServerMessage) {
+    setTimeout(() => {
+      if (!this.closed) this.callbacks.onmessage(message);
+    });
+  }
+}
+
+/**
+ * Music backend that runs in the page with no network or API key. Each
+ * prompt becomes a procedural pattern seeded from its text and steered by
+ * genre words in it, and the patterns are mixed by prompt weight. Meant for
+ * demos, development and automated tests of the playback pipeline.
+ */
+export class LocalMusicTransport implements MusicTransport {
+  private options: LocalMusicOptions;
+
+  constructor(options: Partial<LocalMusicOptions> = {}) {
+    this.options = { ...DEFAULT_LOCAL_MUSIC_OPTIONS, ...options };
+  }
+
+  async connect(callbacks: MusicCallbacks): Promise<MusicSession> {
+    return new LocalMusicSession(callbacks, this.options);
+  }
+}
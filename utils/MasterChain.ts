@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MasterSettings } from '../types';
+import { loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'boombox-master';
+
+export const DEFAULT_MASTER_SETTINGS: MasterSettings = {
+  volume: 1,
+  bass: 0,
+  mid: 0,
+  treble: 0,
+  bassBoost: false,
+};
+
+/** Shelf added on top of the bass knob while the boost switch is on, in dB. */
+const BASS_BOOST_GAIN = 9;
+/** Smoothing time constant for knob moves, in seconds. */
+const SMOOTHING = 0.02;
+
+/**
+ * Final stage before the speakers: volume, a 3-band EQ, a bass boost shelf
+ * and a brickwall limiter, so the summed music and voice never clip.
+ * Settings are persisted in localStorage.
+ */
+export class MasterChain {
+  private audioContext: AudioContext;
+  /** Everything audible is connected here. */
+  public readonly input: GainNode;
+  private bass: BiquadFilterNode;
+  private mid: BiquadFilterNode;
+  private treble: BiquadFilterNode;
+  private boost: BiquadFilterNode;
+  private limiter: DynamicsCompressorNode;
+  private _settings: MasterSettings;
+
+  constructor(audioContext: AudioContext, destination: AudioNode = audioContext.destination) {
+    this.audioContext = audioContext;
+    this.input = audioContext.createGain();
+    this.bass = this.createFilter('lowshelf', 200);
+    this.mid = this.createFilter('peaking', 1000);
+    this.mid.Q.value = 0.8;
+    this.treble = this.createFilter('highshelf', 3500);
+    this.boost = this.createFilter('lowshelf', 80);
+
+    this.limiter = audioContext.createDynamicsCompressor();
+    this.limiter.threshold.value = -1;
+    this.limiter.knee.value = 0;
+    this.limiter.ratio.value = 20;
+    this.limiter.attack.value = 0.003;
+    this.limiter.release.value = 0.25;
+
+    this.input.connect(this.bass);
+    this.bass.connect(this.mid);
+    this.mid.connect(this.treble);
+    this.treble.connect(this.boost);
+    this.boost.connect(this.limiter);
+    this.limiter.connect(destination);
+
+    this._settings = {
+      ...DEFAULT_MASTER_SETTINGS,
+      ...loadJson<Partial<MasterSettings>>(STORAGE_KEY, {}),
+    };
+    this.apply(0);
+  }
+
+  get settings(): MasterSettings {
+    return this._settings;
+  }
+
+  /** Changes and persists master settings. */
+  update(changes: Partial<MasterSettings>) {
+    this._settings = { ...this._settings, ...changes };
+    saveJson(STORAGE_KEY, this._settings);
+    this.apply(SMOOTHING);
+  }
+
+  private createFilter(type: BiquadFilterType, frequency: number) {
+    const filter = this.audioContext.createBiquadFilter();
+    filter.type = type;
+    filter.frequency.value = frequency;
+    filter.gain.value = 0;
+    return filter;
+  }
+
+  private apply(smoothing: number) {
+    const { volume, bass, mid, treble, bassBoost } = this._settings;
+    const set = (param: AudioParam, value: number) => {
+      if (smoothing > 0) {
+        param.setTargetAtTime(value, this.audioContext.currentTime, smoothing);
+      } else {
+        param.value = value;
+      }
+    };
+    set(this.input.gain, volume);
+    set(this.bass.gain, bass);
+    set(this.mid.gain, mid);
+    set(this.treble.gain, treble);
+    set(this.boost.gain, bassBoost ? BASS_BOOST_GAIN : 0);
+  }
+}
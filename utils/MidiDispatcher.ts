@@ -2,9 +2,9 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { ControlChange } from '../types';
+import type { ControlChange, NoteOn } from '../types';
 
-/** Simple class for dispatching MIDI CC messages as events. */
+/** Simple class for dispatching MIDI CC and note-on messages as events. */
 export class MidiDispatcher extends EventTarget {
   private access: MIDIAccess | null = null;
   activeMidiInputId: string | null = null;
@@ -48,12 +48,20 @@ export class MidiDispatcher extends EventTarget {
         const messageType = statusByte & 0xf0;
 
         const isControlChange = messageType === 0xb0;
-        if (!isControlChange) return;
+        // A note-on with zero velocity is a note-off by convention.
+        const isNoteOn = messageType === 0x90 && data[2] > 0;
 
-        const detail: ControlChange = { cc: data[1], value: data[2], channel };
-        this.dispatchEvent(
-          new CustomEvent<ControlChange>('cc-message', { detail }),
-        );
+        if (isControlChange) {
+          const detail: ControlChange = { cc: data[1], value: data[2], channel };
+          this.dispatchEvent(
+            new CustomEvent<ControlChange>('cc-message', { detail }),
+          );
+        } else if (isNoteOn) {
+          const detail: NoteOn = { note: data[1], velocity: data[2], channel };
+          this.dispatchEvent(
+            new CustomEvent<NoteOn>('note-message', { detail }),
+          );
+        }
       };
     }
 
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ControlChange, MidiAction, MidiBinding, MidiMapping, NoteOn } from '../types';
+import type { MidiDispatcher } from './MidiDispatcher';
+import { loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'boombox-midi-mapping';
+
+/**
+ * Maps MIDI messages from a `MidiDispatcher` onto boombox actions.
+ *
+ * Dispatches `tune-absolute` (0-1), `tune-relative` (signed steps),
+ * `play-pause` and `volume` (0-1) events, plus `mapping-changed` whenever a
+ * binding is learned or cleared.
+ */
+export class MidiMapper extends EventTarget {
+  mapping: MidiMapping;
+  learning: MidiAction | null = null;
+
+  constructor(midiDispatcher: MidiDispatcher) {
+    super();
+    this.mapping = loadJson<MidiMapping>(STORAGE_KEY, { inputId: null, bindings: {} });
+    midiDispatcher.addEventListener('cc-message', (e: Event) => {
+      this.handleControlChange((e as CustomEvent<ControlChange>).detail);
+    });
+    midiDispatcher.addEventListener('note-message', (e: Event) => {
+      this.handleNoteOn((e as CustomEvent<NoteOn>).detail);
+    });
+  }
+
+  get inputId() {
+    return this.mapping.inputId;
+  }
+
+  set inputId(inputId: string | null) {
+    this.mapping = { ...this.mapping, inputId };
+    this.save();
+  }
+
+  /** True once any action has been bound. */
+  get hasBindings() {
+    return Object.keys(this.mapping.bindings).length > 0;
+  }
+
+  getBinding(action: MidiAction): MidiBinding | undefined {
+    return this.mapping.bindings[action];
+  }
+
+  toggleLearnMode(action: MidiAction) {
+    this.learning = this.learning === action ? null : action;
+    this.dispatchEvent(new CustomEvent('mapping-changed'));
+  }
+
+  setMode(action: MidiAction, mode: MidiBinding['mode']) {
+    const binding = this.getBinding(action);
+    if (!binding) return;
+    this.bind(action, { ...binding, mode });
+  }
+
+  clearBinding(action: MidiAction) {
+    const bindings = { ...this.mapping.bindings };
+    delete bindings[action];
+    this.mapping = { ...this.mapping, bindings };
+    this.save();
+  }
+
+  private bind(action: MidiAction, binding: MidiBinding) {
+    this.mapping = {
+      ...this.mapping,
+      bindings: { ...this.mapping.bindings, [action]: binding },
+    };
+    this.save();
+  }
+
+  private save() {
+    saveJson(STORAGE_KEY, this.mapping);
+    this.dispatchEvent(new CustomEvent('mapping-changed'));
+  }
+
+  private handleControlChange({ channel, cc, value }: ControlChange) {
+    if (this.learning) {
+      const previous = this.getBinding(this.learning);
+      const mode = previous?.type === 'cc' ? previous.mode : 'absolute';
+      const action = this.learning;
+      this.learning = null;
+      this.bind(action, { type: 'cc', channel, number: cc, mode });
+      return;
+    }
+
+    for (const action of this.actionsFor('cc', channel, cc)) {
+      const binding = this.getBinding(action)!;
+      if (action === 'tune') {
+        if (binding.mode === 'relative') {
+          // Two's complement encoding: 1-63 turn right, 65-127 turn left.
+          const delta = value < 64 ? value : value - 128;
+          if (delta !== 0) this.dispatch('tune-relative', delta);
+        } else {
+          this.dispatch('tune-absolute', value / 127);
+        }
+      } else if (action === 'volume') {
+        this.dispatch('volume', value / 127);
+      } else if (value > 0) {
+        // Momentary buttons send 127 on press and 0 on release.
+        this.dispatch('play-pause');
+      }
+    }
+  }
+
+  private handleNoteOn({ channel, note }: NoteOn) {
+    if (this.learning) {
+      // Notes carry no position, so they can only trigger play/pause.
+      if (this.learning !== 'play-pause') return;
+      this.learning = null;
+      this.bind('play-pause', { type: 'note', channel, number: note, mode: 'absolute' });
+      return;
+    }
+
+    for (const action of this.actionsFor('note', channel, note)) {
+      if (action === 'play-pause') this.dispatch('play-pause');
+    }
+  }
+
+  private actionsFor(type: MidiBinding['type'], channel: number, number: number) {
+    return (Object.keys(this.mapping.bindings) as MidiAction[]).filter((action) => {
+      const binding = this.mapping.bindings[action]!;
+      return binding.type === type && binding.channel === channel && binding.number === number;
+    });
+  }
+
+  private dispatch(type: string, detail?: number) {
+    this.dispatchEvent(new CustomEvent<number | undefined>(type, { detail }));
+  }
+}
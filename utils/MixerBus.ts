@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { DuckingOptions } from '../types';
+
+export const DEFAULT_DUCKING: DuckingOptions = {
+  amount: 9,
+  attack: 0.15,
+  release: 0.8,
+};
+
+/**
+ * Shared bus the music and the DJ voice are summed on before the speakers.
+ * The music channel can be ducked under the voice, sidechain style.
+ */
+export class MixerBus {
+  public readonly audioContext: AudioContext;
+  /** Music channel; its gain is the ducking stage. */
+  public readonly music: GainNode;
+  public readonly voice: GainNode;
+  /** Sound effects such as tuning static; never ducked. */
+  public readonly effects: GainNode;
+  /** Sum of all channels. */
+  public readonly output: GainNode;
+
+  constructor(audioContext: AudioContext, destination: AudioNode = audioContext.destination) {
+    this.audioContext = audioContext;
+    this.music = audioContext.createGain();
+    this.voice = audioContext.createGain();
+    this.effects = audioContext.createGain();
+    this.output = audioContext.createGain();
+    this.music.connect(this.output);
+    this.voice.connect(this.output);
+    this.effects.connect(this.output);
+    this.output.connect(destination);
+  }
+
+  /**
+   * Lowers the music by `options.amount` dB for `duration` seconds from
+   * `startTime`, ramping down over the attack and back up over the release.
+   */
+  duck(startTime: number, duration: number, options: DuckingOptions) {
+    const gain = this.music.gain;
+    const level = Math.pow(10, -options.amount / 20);
+    const start = Math.max(startTime, this.audioContext.currentTime);
+    const end = Math.max(start + options.attack, startTime + duration);
+
+    gain.setValueAtTime(this.holdCurrentValue(), start);
+    gain.linearRampToValueAtTime(level, start + options.attack);
+    gain.setValueAtTime(level, end);
+    gain.linearRampToValueAtTime(1, end + options.release);
+  }
+
+  /** Brings the music back up now, e.g. when an announcement is cut short. */
+  release(options: DuckingOptions) {
+    this.holdCurrentValue();
+    this.music.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + options.release);
+  }
+
+  /** Drops pending automation, continuing from wherever the gain is now. */
+  private holdCurrentValue(): number {
+    const gain = this.music.gain;
+    const now = this.audioContext.currentTime;
+    const value = gain.value;
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(value, now);
+    return value;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  GoogleGenAI,
+  LiveMusicServerMessage,
+  LiveMusicSetConfigParameters,
+  LiveMusicSetWeightedPromptsParameters,
+} from '@google/genai';
+
+/** The fields of a server message the boombox reads. */
+export type MusicServerMessage = Pick<LiveMusicServerMessage, 'setupComplete' | 'serverContent' | 'filteredPrompt'>;
+
+export interface MusicCallbacks {
+  onmessage: (e: MusicServerMessage) => void;
+  onerror?: ((e: Event) => void) | null;
+  onclose?: ((e: Event) => void) | null;
+}
+
+/** The part of a `LiveMusicSession` the boombox uses. */
+export interface MusicSession {
+  setWeightedPrompts(params: LiveMusicSetWeightedPromptsParameters): Promise<void>;
+  setMusicGenerationConfig(params: LiveMusicSetConfigParameters): Promise<void>;
+  play(): void;
+  pause(): void;
+  stop(): void;
+  resetContext(): void;
+}
+
+/**
+ * Opens music generation sessions. Whatever is behind it, sessions report
+ * through `callbacks` with Lyria RealTime's message shapes: `setupComplete`
+ * once ready, `filteredPrompt` for rejected prompts and 48 kHz stereo 16-bit
+ * PCM in `serverContent.audioChunks`.
+ */
+export interface MusicTransport {
+  connect(callbacks: MusicCallbacks): Promise<MusicSession>;
+}
+
+/** Lyria RealTime through the Gemini API. */
+export class GenAiMusicTransport implements MusicTransport {
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(ai: GoogleGenAI, model: string) {
+    this.ai = ai;
+    this.model = model;
+  }
+
+  connect(callbacks: MusicCallbacks): Promise<MusicSession> {
+    return this.ai.live.music.connect({ model: this.model, callbacks });
+  }
+}
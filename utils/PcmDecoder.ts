@@ -0,0 +1,109 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { decode } from './audio';
+import { decodePcmAtRate, type PcmFormat } from './pcm';
+
+export interface PcmDecodeRequest {
+  id: number;
+  /** Base64 PCM as it arrives from the server. */
+  data: string;
+  format: PcmFormat;
+  sampleRate: number;
+}
+
+export type PcmDecodeResponse =
+  | { id: number; channels: Float32Array[] }
+  | { id: number; error: string };
+
+interface PendingDecode {
+  request: PcmDecodeRequest;
+  resolve: (channels: Float32Array[]) => void;
+  reject: (error: Error) => void;
+}
+
+/** Decodes on the calling thread; the worker runs the same steps. */
+export function decodeBase64Pcm({ data, format, sampleRate }: PcmDecodeRequest): Float32Array[] {
+  return decodePcmAtRate(decode(data), format, sampleRate);
+}
+
+/**
+ * Turns base64 PCM into planar channels at a given sample rate. The work
+ * runs in a worker so the `atob` and sample conversion of every chunk stay
+ * off the main thread, which is busy rendering the meters. Without worker
+ * support, or once the worker has crashed, it decodes on the main thread.
+ */
+export class PcmDecoder {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingDecode>();
+
+  constructor() {
+    if (typeof Worker === 'undefined') return;
+    try {
+      this.worker = new Worker(new URL('./pcmWorker.ts', import.meta.url), { type: 'module' });
+    } catch (e) {
+      console.warn('PCM worker unavailable, decoding on the main thread:', e);
+      return;
+    }
+    this.worker.addEventListener('message', (e: MessageEvent<PcmDecodeResponse>) => this.handleResponse(e.data));
+    this.worker.addEventListener('error', (e) => {
+      console.warn('PCM worker failed, decoding on the main thread:', e.message);
+      this.fallBack();
+    });
+  }
+
+  /** Whether decoding happens off the main thread. */
+  get inWorker() {
+    return this.worker !== null;
+  }
+
+  decode(data: string, format: PcmFormat, sampleRate: number): Promise<Float32Array[]> {
+    const request: PcmDecodeRequest = { id: this.nextId++, data, format, sampleRate };
+    if (!this.worker) {
+      try {
+        return Promise.resolve(decodeBase64Pcm(request));
+      } catch (e) {
+        return Promise.reject(e);
+      }
+    }
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { request, resolve, reject });
+      this.worker!.postMessage(request);
+    });
+  }
+
+  dispose() {
+    this.worker?.terminate();
+    this.worker = null;
+    for (const { reject } of this.pending.values()) reject(new Error('PCM decoder disposed.'));
+    this.pending.clear();
+  }
+
+  private handleResponse(response: PcmDecodeResponse) {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+    if ('error' in response) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve(response.channels);
+    }
+  }
+
+  /** Drops the worker and finishes whatever it still owed on the main thread. */
+  private fallBack() {
+    this.worker?.terminate();
+    this.worker = null;
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    for (const { request, resolve, reject } of pending) {
+      try {
+        resolve(decodeBase64Pcm(request));
+      } catch (e) {
+        reject(e as Error);
+      }
+    }
+  }
+}
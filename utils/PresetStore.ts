@@ -0,0 +1,210 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, Station, StationList } from '../types';
+import { loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'boombox-presets';
+
+/** Identifies exported station packs, so unrelated JSON files are rejected. */
+const EXPORT_FORMAT = 'lyria-boombox-stations';
+const EXPORT_VERSION = 1;
+
+interface StoredPresets {
+  active: string;
+  lists: StationList[];
+}
+
+/** Shape of an exported station pack file. */
+interface StationPackFile extends StationList {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+}
+
+/** MHz between neighbouring stations on a freshly spread dial. */
+export const DIAL_STEP = 1.5;
+
+/** Fake frequency logic: Start at 88.0, add DIAL_STEP per station position. */
+export function dialFrequency(index: number) {
+  return 88.0 + index * DIAL_STEP;
+}
+
+/** Builds the prompt map for a station list. Only the first station starts audible. */
+export function promptsFromStations(stations: Station[]): Map<string, Prompt> {
+  const prompts = new Map<string, Prompt>();
+  stations.forEach((station, i) => {
+    const promptId = `prompt-${i}`;
+    prompts.set(promptId, {
+      promptId,
+      ...station,
+      weight: i === 0 ? 1 : 0,
+    });
+  });
+  return prompts;
+}
+
+export function stationsFromPrompts(prompts: Iterable<Prompt>): Station[] {
+  return [...prompts].map(({ text, color, cc, frequency }) => ({ text, color, cc, frequency }));
+}
+
+/**
+ * Persists named station lists in localStorage and converts them to and
+ * from shareable JSON. Dispatches `presets-changed` after every change.
+ */
+export class PresetStore extends EventTarget {
+  private presets: StoredPresets;
+
+  constructor(defaultList: StationList) {
+    super();
+    this.presets = parseStoredPresets(loadJson<unknown>(STORAGE_KEY, null), defaultList.name);
+    if (this.presets.lists.length === 0) {
+      this.presets.lists = [defaultList];
+    }
+    if (!this.get(this.presets.active)) {
+      this.presets.active = this.presets.lists[0].name;
+    }
+  }
+
+  get lists(): readonly StationList[] {
+    return this.presets.lists;
+  }
+
+  get activeList(): StationList {
+    return this.get(this.presets.active)!;
+  }
+
+  get(name: string): StationList | undefined {
+    return this.presets.lists.find((list) => list.name === name);
+  }
+
+  setActive(name: string) {
+    if (!this.get(name)) throw new Error(`There is no preset named "${name}".`);
+    this.presets = { ...this.presets, active: name };
+    this.save();
+  }
+
+  /** Adds a list, or replaces the list with the same name. */
+  put(list: StationList) {
+    const lists = this.presets.lists.filter((l) => l.name !== list.name);
+    const index = this.presets.lists.findIndex((l) => l.name === list.name);
+    lists.splice(index === -1 ? lists.length : index, 0, list);
+    this.presets = { ...this.presets, lists };
+    this.save();
+  }
+
+  remove(name: string) {
+    if (this.presets.lists.length === 1) {
+      throw new Error('At least one preset has to remain.');
+    }
+    const lists = this.presets.lists.filter((l) => l.name !== name);
+    const active = this.presets.active === name ? lists[0].name : this.presets.active;
+    this.presets = { active, lists };
+    this.save();
+  }
+
+  exportList(name: string): string {
+    const list = this.get(name);
+    if (!list) throw new Error(`There is no preset named "${name}".`);
+    const file: StationPackFile = {
+      format: EXPORT_FORMAT,
+      version: EXPORT_VERSION,
+      name: list.name,
+      stations: list.stations,
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  /**
+   * Validates and stores an exported station pack. A pack whose name is
+   * taken is stored under a numbered name instead of overwriting.
+   */
+  importList(json: string): StationList {
+    const list = parseStationPack(json);
+    let name = list.name;
+    for (let n = 2; this.get(name); n++) {
+      name = `${list.name} (${n})`;
+    }
+    const imported = { ...list, name };
+    this.put(imported);
+    return imported;
+  }
+
+  private save() {
+    saveJson(STORAGE_KEY, this.presets);
+    this.dispatchEvent(new CustomEvent('presets-changed'));
+  }
+}
+
+/** Parses an exported station pack, throwing an Error that says what is wrong. */
+export function parseStationPack(json: string): StationList {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The preset file is not valid JSON.');
+  }
+
+  if (!isObject(data) || data.format !== EXPORT_FORMAT) {
+    throw new Error('The file is not a boombox station pack.');
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1 || (data.version as number) > EXPORT_VERSION) {
+    throw new Error(`Unsupported station pack version ${data.version}; this boombox reads version ${EXPORT_VERSION}.`);
+  }
+  return parseStationList(data);
+}
+
+/**
+ * Reads presets saved by an earlier visit. Lists that don't hold up are
+ * left out rather than breaking the boombox; with none left, the caller
+ * starts over from its default list.
+ */
+function parseStoredPresets(stored: unknown, defaultActive: string): StoredPresets {
+  const lists: StationList[] = [];
+  if (isObject(stored) && Array.isArray(stored.lists)) {
+    for (const list of stored.lists) {
+      try {
+        if (isObject(list)) lists.push(parseStationList(list));
+      } catch (e) {
+        console.error('Ignoring a stored preset that is malformed:', e);
+      }
+    }
+  }
+  const active = isObject(stored) && typeof stored.active === 'string' ? stored.active : defaultActive;
+  return { active, lists };
+}
+
+/** Validates a named list of stations, throwing an Error that says what is wrong. */
+function parseStationList(data: Record<string, unknown>): StationList {
+  if (typeof data.name !== 'string' || data.name.trim() === '') {
+    throw new Error('The station pack needs a name.');
+  }
+  if (!Array.isArray(data.stations) || data.stations.length === 0) {
+    throw new Error('The station pack needs at least one station.');
+  }
+
+  const stations = data.stations.map((station: unknown, i: number): Station => {
+    const where = `Station ${i + 1}`;
+    if (!isObject(station)) throw new Error(`${where} is not an object.`);
+    const { text, color, cc, frequency } = station;
+    if (typeof text !== 'string' || text.trim() === '') {
+      throw new Error(`${where} needs a non-empty "text".`);
+    }
+    if (typeof color !== 'string' || !/^#[0-9a-f]{6}$/i.test(color)) {
+      throw new Error(`${where} "color" must be a hex color like #ff25f6.`);
+    }
+    if (!Number.isInteger(cc) || (cc as number) < 0 || (cc as number) > 127) {
+      throw new Error(`${where} "cc" must be a MIDI CC number from 0 to 127.`);
+    }
+    if (typeof frequency !== 'number' || !Number.isFinite(frequency) || frequency <= 0) {
+      throw new Error(`${where} "frequency" must be a positive number of MHz.`);
+    }
+    return { text: text.trim(), color, cc: cc as number, frequency };
+  });
+
+  return { name: data.name.trim(), stations };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -4,28 +4,118 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 import { GoogleGenAI, Modality } from '@google/genai';
-import { decode, decodeAudioData } from './audio';
+import type { AnnouncerSettings, ScanSettings, ScheduledAudio } from '../types';
+import { decode } from './audio';
+import { DEFAULT_DUCKING, type MixerBus } from './MixerBus';
+import { pcmToAudioBuffer, SPEECH_PCM } from './pcm';
+import { loadJson, saveJson } from './storage';
 
-export class RadioAnnouncer {
+const STORAGE_KEY = 'boombox-announcer';
+
+/** Prebuilt voices offered by the Gemini TTS model. */
+export const PREBUILT_VOICES = [
+  'Achernar', 'Achird', 'Algenib', 'Algieba', 'Alnilam', 'Aoede', 'Autonoe',
+  'Callirrhoe', 'Charon', 'Despina', 'Enceladus', 'Erinome', 'Fenrir', 'Gacrux',
+  'Iapetus', 'Kore', 'Laomedeia', 'Leda', 'Orus', 'Puck', 'Pulcherrima',
+  'Rasalgethi', 'Sadachbia', 'Sadaltager', 'Schedar', 'Sulafat', 'Umbriel',
+  'Vindemiatrix', 'Zephyr', 'Zubenelgenubi',
+];
+
+export const DEFAULT_ANNOUNCER_SETTINGS: AnnouncerSettings = {
+  enabled: true,
+  voice: 'Fenrir',
+  persona: `You are a charismatic radio DJ. Write a single, short, punchy sentence to introduce the current song.
+The station frequency is {frequency} FM.
+The music genre is {station}.
+Do not use quotes. Just the spoken text.
+Example: "You're locked in to 104.5, keeping it smooth with Bossa Nova."`,
+  debounce: 800,
+  delay: 15,
+  repeatMinutes: 0,
+  maxLength: 12,
+  ducking: DEFAULT_DUCKING,
+};
+
+/** Fade applied when an announcement is cut at `maxLength`, in seconds. */
+const CUT_FADE = 0.3;
+
+export class RadioAnnouncer extends EventTarget {
   private ai: GoogleGenAI;
   private audioContext: AudioContext;
-  private destination: AudioNode; // Visualizer node
+  private mixer: MixerBus;
+  /** All announcements pass through here, for taps such as recording. */
+  public readonly outputNode: GainNode;
   private timer: number | null = null;
   private debounceTimer: number | null = null;
   private currentSource: AudioBufferSourceNode | null = null;
+  private _settings: AnnouncerSettings;
   
   private isPlayingMusic = false;
   private currentStationName: string | null = null;
   private currentFrequency: string | null = null;
+  /** The tuner scan in progress, or null when not scanning. */
+  private scan: ScanSettings | null = null;
 
   // Track the unique 'session' of a station tune-in
   private stationId = 0;
   private pendingBufferPromise: Promise<AudioBuffer | null> | null = null;
 
-  constructor(ai: GoogleGenAI, audioContext: AudioContext, destination: AudioNode) {
+  constructor(ai: GoogleGenAI, mixer: MixerBus, destination: AudioNode) {
+    super();
     this.ai = ai;
-    this.audioContext = audioContext;
-    this.destination = destination;
+    this.mixer = mixer;
+    this.audioContext = mixer.audioContext;
+    this._settings = {
+      ...DEFAULT_ANNOUNCER_SETTINGS,
+      ...loadJson<Partial<AnnouncerSettings>>(STORAGE_KEY, {}),
+    };
+
+    this.outputNode = this.audioContext.createGain();
+    // CRITICAL: Connect to the mixer so we can hear it over the ducked music
+    this.outputNode.connect(mixer.voice);
+    // CRITICAL: Connect to visualizer (destination) so the needles move
+    this.outputNode.connect(destination);
+  }
+
+  get settings(): AnnouncerSettings {
+    return this._settings;
+  }
+
+  /**
+   * Changes and persists announcer settings. Changes to what is said or how
+   * it sounds discard the pending announcement and generate a fresh one.
+   */
+  updateSettings(changes: Partial<AnnouncerSettings>) {
+    const previous = this._settings;
+    this._settings = { ...previous, ...changes };
+    saveJson(STORAGE_KEY, this._settings);
+
+    if (!this._settings.enabled) {
+      this.cancel();
+      return;
+    }
+
+    const needsNewScript = !previous.enabled
+      || previous.voice !== this._settings.voice
+      || previous.persona !== this._settings.persona;
+    if (needsNewScript && this.currentStationName && this.currentFrequency) {
+      this.retune(this.currentStationName, this.currentFrequency);
+    } else if (previous.delay !== this._settings.delay || previous.repeatMinutes !== this._settings.repeatMinutes) {
+      this.startTimer();
+    }
+  }
+
+  /** Stops any announcement that is playing or pending. */
+  private cancel() {
+    this.stationId++;
+    this.pendingBufferPromise = null;
+    this.stopTimer();
+    if (this.debounceTimer) clearTimeout(this.debounceTimer);
+    if (this.currentSource) {
+      this.currentSource.stop();
+      this.currentSource = null;
+      this.mixer.release(this._settings.ducking);
+    }
   }
 
   /**
@@ -35,7 +125,7 @@ export class RadioAnnouncer {
     this.isPlayingMusic = playing;
     if (playing) {
       // If we have a station and audio ready/pending, restart the timer
-      if (this.currentStationName) {
+      if (this.currentStationName && !this.scan) {
         this.startTimer();
       }
     } else {
@@ -51,7 +141,29 @@ export class RadioAnnouncer {
 
     this.currentStationName = stationName;
     this.currentFrequency = frequency;
-    
+    if (this._settings.enabled && !this.isQuietScan) this.retune(stationName, frequency);
+  }
+
+  /**
+   * Follows the tuner's scan. A quiet scan passes stations without a word
+   * and the station it locks on is announced as usual; an announcing scan
+   * introduces every station as soon as the announcement is ready.
+   */
+  setScan(scan: ScanSettings | null) {
+    const wasQuiet = this.isQuietScan;
+    this.scan = scan;
+    if (this.isQuietScan) {
+      this.cancel();
+    } else if (wasQuiet && this._settings.enabled && this.currentStationName && this.currentFrequency) {
+      this.retune(this.currentStationName, this.currentFrequency);
+    }
+  }
+
+  private get isQuietScan() {
+    return this.scan !== null && !this.scan.announce;
+  }
+
+  private retune(stationName: string, frequency: string) {
     // Increment ID to invalidate any previous pending generations or plays
     this.stationId++;
     
@@ -62,16 +174,18 @@ export class RadioAnnouncer {
     this.stopTimer();
     if (this.debounceTimer) clearTimeout(this.debounceTimer);
 
-    // Start the 15s timer immediately if music is playing
-    // This ensures the 15s counts from the moment of tuning
-    if (this.isPlayingMusic) {
+    // Start the delay timer immediately if music is playing
+    // This ensures the delay counts from the moment of tuning
+    if (this.isPlayingMusic && !this.scan) {
       this.startTimer();
     }
 
     // Wait for the user to stop scrolling (debounce) before generating
     this.debounceTimer = window.setTimeout(() => {
        this.pendingBufferPromise = this.generateAnnouncement(this.stationId, stationName, frequency);
-    }, 800);
+       // A scan soon moves on, so it can't wait out the delay.
+       if (this.scan) this.playPendingAnnouncement(this.stationId);
+    }, this._settings.debounce);
   }
 
   private stopTimer() {
@@ -81,15 +195,15 @@ export class RadioAnnouncer {
     }
   }
 
-  private startTimer() {
+  private startTimer(delay = this._settings.delay) {
     this.stopTimer();
     
-    if (this.isPlayingMusic && this.currentStationName) {
+    if (this._settings.enabled && this.isPlayingMusic && this.currentStationName) {
       const myId = this.stationId;
-      // Wait 15 seconds before attempting to play
+      // Wait before attempting to play
       this.timer = window.setTimeout(async () => {
         await this.playPendingAnnouncement(myId);
-      }, 15000);
+      }, delay * 1000);
     }
   }
 
@@ -98,11 +212,9 @@ export class RadioAnnouncer {
       // 1. Generate the DJ Script
       const scriptResponse = await this.ai.models.generateContent({
         model: 'gemini-2.5-flash',
-        contents: `You are a charismatic radio DJ. Write a single, short, punchy sentence to introduce the current song.
-        The station frequency is ${freq} FM.
-        The music genre is ${station}.
-        Do not use quotes. Just the spoken text.
-        Example: "You're locked in to 104.5, keeping it smooth with Bossa Nova."`,
+        contents: this._settings.persona
+          .replaceAll('{station}', station)
+          .replaceAll('{frequency}', freq),
       });
       
       // If station changed while generating script, abort
@@ -121,7 +233,7 @@ export class RadioAnnouncer {
           responseModalities: [Modality.AUDIO],
           speechConfig: {
             voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: 'Fenrir' }
+              prebuiltVoiceConfig: { voiceName: this._settings.voice }
             }
           }
         }
@@ -133,15 +245,8 @@ export class RadioAnnouncer {
       const audioData = ttsResponse.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
       if (!audioData) return null;
 
-      // 3. Decode Audio
-      const audioBuffer = await decodeAudioData(
-        decode(audioData),
-        this.audioContext,
-        24000, // TTS model output is 24k
-        1
-      );
-      
-      return audioBuffer;
+      // 3. Decode Audio, resampled from 24k TTS to the music clock
+      return pcmToAudioBuffer(decode(audioData), this.audioContext, SPEECH_PCM);
 
     } catch (e) {
       console.error("Radio Announcer Gen Error:", e);
@@ -164,18 +269,28 @@ export class RadioAnnouncer {
 
       const gainNode = this.audioContext.createGain();
       gainNode.gain.value = 1.1; 
-
-      // CRITICAL: Connect to speakers so we can hear it
-      gainNode.connect(this.audioContext.destination);
-      
-      // CRITICAL: Connect to visualizer so the needles move
-      gainNode.connect(this.destination);
+      gainNode.connect(this.outputNode);
 
       const source = this.audioContext.createBufferSource();
       source.buffer = buffer;
       source.connect(gainNode);
-      source.start();
+
+      // Fade out and cut announcements that run past the maximum length
+      const { maxLength, ducking } = this._settings;
+      const now = this.audioContext.currentTime;
+      const isCut = buffer.duration > maxLength;
+      this.mixer.duck(now, Math.min(buffer.duration, maxLength), ducking);
+      if (isCut) {
+        gainNode.gain.setValueAtTime(1.1, now + maxLength - CUT_FADE);
+        gainNode.gain.linearRampToValueAtTime(0, now + maxLength);
+        source.start(now, 0, maxLength);
+      } else {
+        source.start(now);
+      }
       this.currentSource = source;
+      this.dispatchEvent(new CustomEvent<ScheduledAudio>('announcement-started', {
+        detail: isCut ? { buffer, startTime: now, duration: maxLength, fadeOut: CUT_FADE } : { buffer, startTime: now },
+      }));
 
       source.onended = () => {
         if (this.currentSource === source) {
@@ -185,6 +300,16 @@ export class RadioAnnouncer {
         source.disconnect();
         gainNode.disconnect();
       };
+
+      // Prepare a fresh take and announce again after the repeat interval
+      const { repeatMinutes } = this._settings;
+      if (repeatMinutes > 0 && !this.scan && this.currentStationName && this.currentFrequency) {
+        this.pendingBufferPromise = this.generateAnnouncement(id, this.currentStationName, this.currentFrequency);
+        this.startTimer(repeatMinutes * 60);
+      } else {
+        // Played; a later resume must not say it again.
+        this.pendingBufferPromise = null;
+      }
     } catch (e) {
         console.error("Error playing announcement", e);
     }
@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { StaticSettings } from '../types';
+import type { MixerBus } from './MixerBus';
+import { loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'boombox-static';
+
+export const DEFAULT_STATIC_SETTINGS: StaticSettings = {
+  enabled: true,
+  level: 0.25,
+};
+
+/** Length of the looped noise buffer, in seconds. */
+const NOISE_LENGTH = 2;
+/** Crackle pops per second of noise. */
+const CRACKLE_RATE = 12;
+/** Time constants for the static coming in and dying away, in seconds. */
+const FADE_IN = 0.05;
+const FADE_OUT = 0.2;
+
+/**
+ * Procedural radio static: band-limited white noise with crackle, played on
+ * the mixer's effects channel. `setIntensity` fades it in and out, scaled by
+ * the user's level. Settings are persisted in localStorage.
+ */
+export class RadioStatic {
+  private audioContext: AudioContext;
+  private bandpass: BiquadFilterNode;
+  private intensityNode: GainNode;
+  private levelNode: GainNode;
+  private source: AudioBufferSourceNode | null = null;
+  private intensity = 0;
+  private _settings: StaticSettings;
+
+  constructor(mixer: MixerBus) {
+    this.audioContext = mixer.audioContext;
+
+    // Radio hiss lives in the mids; the telephone-like band keeps it from sounding like rain.
+    this.bandpass = this.audioContext.createBiquadFilter();
+    this.bandpass.type = 'bandpass';
+    this.bandpass.frequency.value = 1800;
+    this.bandpass.Q.value = 0.6;
+
+    this.intensityNode = this.audioContext.createGain();
+    this.intensityNode.gain.value = 0;
+    this.levelNode = this.audioContext.createGain();
+
+    this.bandpass.connect(this.intensityNode);
+    this.intensityNode.connect(this.levelNode);
+    this.levelNode.connect(mixer.effects);
+
+    this._settings = {
+      ...DEFAULT_STATIC_SETTINGS,
+      ...loadJson<Partial<StaticSettings>>(STORAGE_KEY, {}),
+    };
+    this.levelNode.gain.value = this._settings.level;
+  }
+
+  get settings(): StaticSettings {
+    return this._settings;
+  }
+
+  /** Changes and persists the static settings. */
+  update(changes: Partial<StaticSettings>) {
+    this._settings = { ...this._settings, ...changes };
+    saveJson(STORAGE_KEY, this._settings);
+    this.levelNode.gain.setTargetAtTime(this._settings.level, this.audioContext.currentTime, 0.02);
+    this.setIntensity(this.intensity);
+  }
+
+  /** Sets how much static is heard, from 0 (clear signal) to 1 (nothing but noise). */
+  setIntensity(intensity: number) {
+    this.intensity = intensity;
+    const target = this._settings.enabled ? intensity : 0;
+    if (target > 0) this.startSource();
+
+    const now = this.audioContext.currentTime;
+    const gain = this.intensityNode.gain;
+    gain.cancelScheduledValues(now);
+    gain.setTargetAtTime(target, now, target > gain.value ? FADE_IN : FADE_OUT);
+  }
+
+  private startSource() {
+    if (this.source) return;
+    this.source = this.audioContext.createBufferSource();
+    this.source.buffer = this.createNoiseBuffer();
+    this.source.loop = true;
+    this.source.connect(this.bandpass);
+    this.source.start();
+  }
+
+  /** White noise with sparse, decaying pops baked in. */
+  private createNoiseBuffer() {
+    const { sampleRate } = this.audioContext;
+    const buffer = this.audioContext.createBuffer(1, NOISE_LENGTH * sampleRate, sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) {
+      data[i] = (Math.random() * 2 - 1) * 0.5;
+    }
+
+    const popLength = Math.round(sampleRate * 0.004);
+    for (let n = 0; n < CRACKLE_RATE * NOISE_LENGTH; n++) {
+      const start = Math.floor(Math.random() * (data.length - popLength));
+      const amplitude = 0.4 + Math.random() * 0.6;
+      const sign = Math.random() < 0.5 ? -1 : 1;
+      for (let i = 0; i < popLength; i++) {
+        data[start + i] += sign * amplitude * Math.exp(-i / (popLength / 5));
+      }
+    }
+    return buffer;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { RecordingOptions, ScheduledAudio } from '../types';
+import { encodeWav } from './audio';
+
+interface Marker {
+  /** AudioContext time of the marker. */
+  time: number;
+  label: string;
+}
+
+export interface Recording {
+  audio: Blob;
+  extension: string;
+  /** CUE sheet describing station changes, or null if nothing was marked. */
+  cueSheet: string | null;
+  baseName: string;
+}
+
+const CUE_FRAMES_PER_SECOND = 75;
+
+/**
+ * Records a take of the live stream.
+ *
+ * WAV takes are rebuilt from the exact buffers the music and announcer
+ * schedule, so they are sample-accurate. Opus takes record whatever reaches
+ * `musicInput`/`voiceInput` in real time through a MediaRecorder.
+ */
+export class Recorder {
+  private audioContext: AudioContext;
+  readonly musicInput: GainNode;
+  readonly voiceInput: GainNode;
+  private streamNode: MediaStreamAudioDestinationNode;
+
+  private options: RecordingOptions | null = null;
+  private startTime = 0;
+  private music: ScheduledAudio[] = [];
+  private voice: ScheduledAudio[] = [];
+  private markers: Marker[] = [];
+  private mediaRecorder: MediaRecorder | null = null;
+  private mediaChunks: Blob[] = [];
+
+  constructor(audioContext: AudioContext) {
+    this.audioContext = audioContext;
+    this.streamNode = audioContext.createMediaStreamDestination();
+    this.musicInput = audioContext.createGain();
+    this.voiceInput = audioContext.createGain();
+    this.musicInput.connect(this.streamNode);
+    this.voiceInput.connect(this.streamNode);
+  }
+
+  get isRecording() {
+    return this.options !== null;
+  }
+
+  start(options: RecordingOptions) {
+    if (this.isRecording) return;
+
+    if (options.format === 'opus') {
+      // Throws when MediaRecorder is unavailable, before any state changes.
+      const mediaRecorder = new MediaRecorder(this.streamNode.stream, {
+        mimeType: pickOpusMimeType(),
+      });
+      this.voiceInput.gain.value = options.includeVoice ? 1 : 0;
+      this.mediaChunks = [];
+      mediaRecorder.ondataavailable = (e) => {
+        if (e.data.size > 0) this.mediaChunks.push(e.data);
+      };
+      mediaRecorder.start();
+      this.mediaRecorder = mediaRecorder;
+    }
+
+    this.options = options;
+    this.startTime = this.audioContext.currentTime;
+    this.music = [];
+    this.voice = [];
+    this.markers = [];
+  }
+
+  /** Called with every music buffer as it is scheduled. */
+  captureMusic(audio: ScheduledAudio) {
+    if (this.options?.format !== 'wav') return;
+    this.music.push(audio);
+  }
+
+  /** Called with every announcement as it starts playing. */
+  captureVoice(audio: ScheduledAudio) {
+    if (this.options?.format !== 'wav' || !this.options.includeVoice) return;
+    this.voice.push(audio);
+  }
+
+  /** Marks a station change at the current time. Repeated labels are ignored. */
+  addMarker(label: string) {
+    if (!this.isRecording) return;
+    if (this.markers[this.markers.length - 1]?.label === label) return;
+    this.markers.push({ time: this.audioContext.currentTime, label });
+  }
+
+  async stop(): Promise<Recording | null> {
+    const options = this.options;
+    if (!options) return null;
+    this.options = null;
+
+    const baseName = `boombox-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+
+    let audio: Blob;
+    let extension: string;
+    let origin: number;
+    if (options.format === 'wav') {
+      // Start the take at the first captured buffer rather than at the press of REC,
+      // since audio scheduled before that was not captured.
+      origin = this.music[0]?.startTime ?? this.startTime;
+      audio = this.renderWav(origin);
+      extension = 'wav';
+    } else {
+      origin = this.startTime;
+      audio = await this.stopMediaRecorder();
+      extension = audio.type.includes('ogg') ? 'ogg' : 'webm';
+    }
+
+    const cueSheet = this.markers.length > 0
+      ? buildCueSheet(this.markers, origin, `${baseName}.${extension}`)
+      : null;
+
+    return { audio, extension, cueSheet, baseName };
+  }
+
+  private stopMediaRecorder(): Promise<Blob> {
+    const mediaRecorder = this.mediaRecorder!;
+    this.mediaRecorder = null;
+    return new Promise((resolve) => {
+      mediaRecorder.onstop = () => {
+        resolve(new Blob(this.mediaChunks, { type: mediaRecorder.mimeType }));
+        this.mediaChunks = [];
+      };
+      mediaRecorder.stop();
+    });
+  }
+
+  private renderWav(origin: number): Blob {
+    const sampleRate = this.audioContext.sampleRate;
+    const all = [...this.music, ...this.voice];
+    const end = all.reduce((max, a) => Math.max(max, a.startTime + playedDuration(a)), origin);
+    const length = Math.max(0, Math.ceil((end - origin) * sampleRate));
+    const channels = [new Float32Array(length), new Float32Array(length)];
+
+    for (const audio of all) {
+      mixInto(channels, audio, (audio.startTime - origin) * sampleRate, sampleRate);
+    }
+
+    return new Blob([encodeWav(channels, sampleRate)], { type: 'audio/wav' });
+  }
+}
+
+function playedDuration(audio: ScheduledAudio) {
+  return Math.min(audio.buffer.duration, audio.duration ?? Infinity);
+}
+
+/**
+ * Adds scheduled audio into the output channels starting at a (fractional)
+ * frame offset, resampling linearly and spreading mono across all channels.
+ * Audio cut short on air is cut and faded the same way here.
+ */
+function mixInto(channels: Float32Array[], audio: ScheduledAudio, offset: number, sampleRate: number) {
+  const { buffer } = audio;
+  const ratio = buffer.sampleRate / sampleRate;
+  const outLength = Math.floor(playedDuration(audio) * sampleRate);
+  const fadeFrames = (audio.fadeOut ?? 0) * sampleRate;
+  const start = Math.round(offset);
+
+  for (let c = 0; c < channels.length; c++) {
+    const output = channels[c];
+    const input = buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1));
+    for (let i = 0; i < outLength; i++) {
+      const target = start + i;
+      if (target < 0) continue;
+      if (target >= output.length) break;
+      const position = i * ratio;
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, input.length - 1);
+      const fraction = position - index;
+      const gain = fadeFrames > 0 ? Math.min(1, (outLength - i) / fadeFrames) : 1;
+      output[target] += (input[index] + (input[next] - input[index]) * fraction) * gain;
+    }
+  }
+}
+
+function pickOpusMimeType() {
+  const candidates = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus'];
+  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+function formatCueTime(seconds: number) {
+  const totalFrames = Math.round(Math.max(0, seconds) * CUE_FRAMES_PER_SECOND);
+  const frames = totalFrames % CUE_FRAMES_PER_SECOND;
+  const totalSeconds = Math.floor(totalFrames / CUE_FRAMES_PER_SECOND);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(Math.floor(totalSeconds / 60))}:${pad(totalSeconds % 60)}:${pad(frames)}`;
+}
+
+/**
+ * The cue format only knows WAVE, AIFF, MP3 and raw binary files. Players
+ * pick the decoder from the file extension and read WAVE as "any audio
+ * file", which is how rippers label FLAC too, so Opus takes gets it as well.
+ */
+function buildCueSheet(markers: Marker[], origin: number, fileName: string) {
+  const escape = (text: string) => text.replace(/"/g, "'");
+  const lines = [
+    'TITLE "Boombox Session"',
+    `FILE "${fileName}" WAVE`,
+  ];
+  markers.forEach((marker, i) => {
+    // The first track must start at the top of the file.
+    const time = i === 0 ? 0 : marker.time - origin;
+    lines.push(
+      `  TRACK ${String(i + 1).padStart(2, '0')} AUDIO`,
+      `    TITLE "${escape(marker.label)}"`,
+      `    INDEX 01 ${formatCueTime(time)}`,
+    );
+  });
+  return lines.join('\n') + '\n';
+}
+
+/** Saves a finished take, plus its cue sheet, through the browser's downloads. */
+export function downloadRecording(recording: Recording) {
+  const save = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  save(recording.audio, `${recording.baseName}.${recording.extension}`);
+  if (recording.cueSheet) {
+    save(new Blob([recording.cueSheet], { type: 'text/plain' }), `${recording.baseName}.cue`);
+  }
+}
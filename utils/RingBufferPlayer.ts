@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import processorUrl from './ringBufferProcessor.ts?worker&url';
+
+export interface RingBufferOptions {
+  /** Ring size in frames; must exceed the furthest audio is written ahead of the playhead. */
+  capacity: number;
+  /** Length of the fades at the edges of a run, in frames. */
+  fadeFrames: number;
+  numChannels: number;
+}
+
+export type RingBufferMessage =
+  | {
+    type: 'write';
+    channels: Float32Array[];
+    /** Context frame to start a new run at, or null to continue the current one. */
+    startFrame: number | null;
+  }
+  | { type: 'flush' };
+
+/** Seconds of audio the ring holds, comfortably above the jitter buffer's largest lead plus a chunk. */
+const CAPACITY_SECONDS = 12;
+
+const modules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/**
+ * Plays PCM chunks through an AudioWorklet ring buffer instead of one
+ * AudioBufferSourceNode per chunk. Chunks either start a new run at a
+ * context time or continue the previous chunk without a gap; the audio
+ * thread fades each run in and fades out when it runs dry.
+ */
+export class RingBufferPlayer {
+  readonly node: AudioWorkletNode;
+  private sampleRate: number;
+
+  private constructor(node: AudioWorkletNode, sampleRate: number) {
+    this.node = node;
+    this.sampleRate = sampleRate;
+    this.node.port.onmessage = (e: MessageEvent<{ type: 'overflow' }>) => {
+      if (e.data.type === 'overflow') console.warn('Ring buffer overflow, audio was written too far ahead.');
+    };
+  }
+
+  /**
+   * Loads the processor into `context`. Rejects where AudioWorklet is
+   * unavailable, e.g. outside a secure context, so callers can fall back.
+   */
+  static async create(context: BaseAudioContext, numChannels: number, fade: number): Promise<RingBufferPlayer> {
+    if (!context.audioWorklet || typeof AudioWorkletNode === 'undefined') {
+      throw new Error('AudioWorklet is not supported.');
+    }
+    let loaded = modules.get(context);
+    if (!loaded) {
+      loaded = context.audioWorklet.addModule(processorUrl);
+      modules.set(context, loaded);
+    }
+    await loaded;
+    const processorOptions: RingBufferOptions = {
+      capacity: Math.ceil(CAPACITY_SECONDS * context.sampleRate),
+      fadeFrames: Math.round(fade * context.sampleRate),
+      numChannels,
+    };
+    const node = new AudioWorkletNode(context, 'ring-buffer-player', {
+      numberOfInputs: 0,
+      outputChannelCount: [numChannels],
+      processorOptions,
+    });
+    return new RingBufferPlayer(node, context.sampleRate);
+  }
+
+  /**
+   * Queues `channels` to play from context time `startTime`, or right after
+   * the previous chunk when null. The channel buffers are transferred to the
+   * audio thread and are unusable afterwards.
+   */
+  write(channels: Float32Array[], startTime: number | null) {
+    const startFrame = startTime === null ? null : Math.round(startTime * this.sampleRate);
+    this.post({ type: 'write', channels, startFrame }, channels.map((channel) => channel.buffer as ArrayBuffer));
+  }
+
+  /** Fades out and drops everything queued. */
+  flush() {
+    this.post({ type: 'flush' });
+  }
+
+  private post(message: RingBufferMessage, transfer: Transferable[] = []) {
+    this.node.port.postMessage(message, transfer);
+  }
+}
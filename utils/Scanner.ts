@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ScanSettings } from '../types';
+
+export const DEFAULT_SCAN: ScanSettings = {
+  dwell: 5,
+  announce: false,
+};
+
+/**
+ * Index of the next station from `from` in `direction` (1 or -1) that
+ * `isClear` accepts, wrapping around the dial. Null when none is clear.
+ */
+export function findClearStation(
+  from: number,
+  count: number,
+  direction: 1 | -1,
+  isClear: (index: number) => boolean,
+): number | null {
+  for (let step = 1; step <= count; step++) {
+    const index = (((from + direction * step) % count) + count) % count;
+    if (isClear(index)) return index;
+  }
+  return null;
+}
+
+/**
+ * Scan timer of the tuner: calls `onStep` straight away and then every
+ * `settings.dwell` seconds until stopped. A step that finds nowhere to go
+ * returns false, which ends the scan.
+ */
+export class Scanner {
+  settings: ScanSettings;
+  private onStep: () => boolean;
+  private timer: number | null = null;
+
+  constructor(onStep: () => boolean, settings: ScanSettings = DEFAULT_SCAN) {
+    this.onStep = onStep;
+    this.settings = settings;
+  }
+
+  get isScanning() {
+    return this.timer !== null;
+  }
+
+  start() {
+    this.stop();
+    this.step();
+  }
+
+  stop() {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private step() {
+    if (!this.onStep()) {
+      this.timer = null;
+      return;
+    }
+    this.timer = window.setTimeout(() => this.step(), this.settings.dwell * 1000);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ShortcutAction, ShortcutBindings } from '../types';
+import { loadJson, saveJson } from './storage';
+
+const STORAGE_KEY = 'boombox-shortcuts';
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  'next-station': 'ArrowRight',
+  'previous-station': 'ArrowLeft',
+  'favorite-1': '1',
+  'favorite-2': '2',
+  'favorite-3': '3',
+  'favorite-4': '4',
+  'favorite-5': '5',
+  'favorite-6': '6',
+  'favorite-7': '7',
+  'favorite-8': '8',
+  'favorite-9': '9',
+  'play-pause': ' ',
+  'record': 'r',
+  'mute-announcer': 'm',
+  // Not the up and down arrows: those tune the dial while its knob has focus.
+  'volume-up': '+',
+  'volume-down': '-',
+  'help': '?',
+};
+
+export const SHORTCUT_ACTIONS = Object.keys(DEFAULT_SHORTCUTS) as ShortcutAction[];
+
+const KEY_NAMES: Record<string, string> = {
+  ' ': 'SPACE',
+  'ArrowRight': '→',
+  'ArrowLeft': '←',
+  'ArrowUp': '↑',
+  'ArrowDown': '↓',
+  'Escape': 'ESC',
+};
+
+/** Name of a bound key for display. */
+export function describeKey(key: string | null) {
+  if (key === null) return '---';
+  return KEY_NAMES[key] ?? key.toUpperCase();
+}
+
+/** The key a keyboard event is bound by, or null for modified keys that are left to the browser. */
+function keyOf(e: KeyboardEvent): string | null {
+  if (e.ctrlKey || e.metaKey || e.altKey) return null;
+  return e.key.length === 1 ? e.key.toLowerCase() : e.key;
+}
+
+/**
+ * Maps keyboard shortcuts onto boombox actions.
+ *
+ * Dispatches `shortcut` with the action for every bound key pressed, plus
+ * `mapping-changed` whenever a binding is learned, cleared or reset.
+ */
+export class ShortcutMap extends EventTarget {
+  bindings: ShortcutBindings;
+  learning: ShortcutAction | null = null;
+
+  constructor() {
+    super();
+    // Merge with the defaults, so actions added later get their keys.
+    this.bindings = { ...DEFAULT_SHORTCUTS, ...loadJson<Partial<ShortcutBindings>>(STORAGE_KEY, {}) };
+  }
+
+  getKey(action: ShortcutAction) {
+    return this.bindings[action];
+  }
+
+  toggleLearnMode(action: ShortcutAction) {
+    this.learning = this.learning === action ? null : action;
+    this.dispatchEvent(new CustomEvent('mapping-changed'));
+  }
+
+  clearBinding(action: ShortcutAction) {
+    this.bindings = { ...this.bindings, [action]: null };
+    this.save();
+  }
+
+  resetBindings() {
+    this.learning = null;
+    this.bindings = { ...DEFAULT_SHORTCUTS };
+    this.save();
+  }
+
+  /**
+   * Learns or triggers the shortcut for a key press. Returns true when the
+   * event was used, so the caller can prevent its default.
+   */
+  handleKeyDown(e: KeyboardEvent): boolean {
+    const key = keyOf(e);
+    if (key === null) return false;
+
+    if (this.learning) {
+      const action = this.learning;
+      this.learning = null;
+      if (key === 'Escape') {
+        this.dispatchEvent(new CustomEvent('mapping-changed'));
+      } else {
+        this.bind(action, key);
+      }
+      return true;
+    }
+
+    const action = SHORTCUT_ACTIONS.find((a) => this.bindings[a] === key);
+    if (!action) return false;
+    this.dispatchEvent(new CustomEvent<ShortcutAction>('shortcut', { detail: action }));
+    return true;
+  }
+
+  /** Binds a key, taking it away from any action that had it. */
+  private bind(action: ShortcutAction, key: string) {
+    const bindings = { ...this.bindings };
+    for (const other of SHORTCUT_ACTIONS) {
+      if (bindings[other] === key) bindings[other] = null;
+    }
+    bindings[action] = key;
+    this.bindings = bindings;
+    this.save();
+  }
+
+  private save() {
+    saveJson(STORAGE_KEY, this.bindings);
+    this.dispatchEvent(new CustomEvent('mapping-changed'));
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/** How to retry a failed operation with exponentially growing delays. */
+export interface BackoffPolicy {
+  /** Attempts before giving up. */
+  maxAttempts: number;
+  /** Delay before the first attempt, in milliseconds. */
+  initialDelay: number;
+  /** Upper bound for any single delay, in milliseconds. */
+  maxDelay: number;
+  /** Growth factor applied per attempt. */
+  multiplier: number;
+  /** Fraction (0-1) of each delay that is randomized to avoid retry storms. */
+  jitter: number;
+}
+
+export const DEFAULT_BACKOFF_POLICY: BackoffPolicy = {
+  maxAttempts: 6,
+  initialDelay: 500,
+  maxDelay: 15000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Returns the delay in milliseconds before the given zero-based attempt.
+ * `random` is injectable so callers can make the jitter deterministic.
+ */
+export function backoffDelay(
+  policy: BackoffPolicy,
+  attempt: number,
+  random: () => number = Math.random,
+): number {
+  const base = Math.min(policy.maxDelay, policy.initialDelay * policy.multiplier ** attempt);
+  const spread = base * policy.jitter;
+  return Math.max(0, base - spread + random() * spread * 2);
+}
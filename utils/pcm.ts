@@ -0,0 +1,222 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/** Sample encodings of raw PCM streams; all are little-endian. */
+export type SampleFormat = 'int16' | 'int24' | 'int32' | 'float32';
+
+export interface PcmFormat {
+  sampleRate: number;
+  numChannels: number;
+  /** Defaults to 16-bit, which both Lyria and Gemini TTS send. */
+  sampleFormat?: SampleFormat;
+}
+
+export const BYTES_PER_SAMPLE: Record<SampleFormat, number> = {
+  int16: 2,
+  int24: 3,
+  int32: 4,
+  float32: 4,
+};
+
+/** Lyria RealTime music: 48 kHz stereo. */
+export const MUSIC_PCM: PcmFormat = { sampleRate: 48000, numChannels: 2 };
+/** Gemini text-to-speech: 24 kHz mono. */
+export const SPEECH_PCM: PcmFormat = { sampleRate: 24000, numChannels: 1 };
+
+/** Full scale of each integer format, i.e. the magnitude of its most negative value. */
+const FULL_SCALE: Record<Exclude<SampleFormat, 'float32'>, number> = {
+  int16: 0x8000,
+  int24: 0x800000,
+  int32: 0x80000000,
+};
+
+/** Typed arrays read in platform byte order, so they only stand in for DataView on little-endian hosts. */
+const IS_LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+/**
+ * Splits interleaved PCM into one Float32Array per channel, scaled to
+ * [-1, 1]. Accepts any view into a buffer, including odd byte offsets;
+ * a trailing partial frame is ignored.
+ */
+export function decodePcm(bytes: Uint8Array, numChannels: number, sampleFormat: SampleFormat = 'int16'): Float32Array[] {
+  if (!Number.isInteger(numChannels) || numChannels < 1) {
+    throw new RangeError(`PCM needs a whole number of channels, got ${numChannels}.`);
+  }
+  const bytesPerSample = BYTES_PER_SAMPLE[sampleFormat];
+  const frames = Math.floor(bytes.byteLength / (bytesPerSample * numChannels));
+  const samples = frames * numChannels;
+  const channels = Array.from({ length: numChannels }, () => new Float32Array(frames));
+
+  // Aligned 16/32-bit data can be read in place; everything else goes through a DataView.
+  const aligned = IS_LITTLE_ENDIAN && bytes.byteOffset % bytesPerSample === 0;
+  if (aligned && sampleFormat === 'int16') {
+    deinterleave(new Int16Array(bytes.buffer, bytes.byteOffset, samples), channels, 1 / FULL_SCALE.int16);
+  } else if (aligned && sampleFormat === 'int32') {
+    deinterleave(new Int32Array(bytes.buffer, bytes.byteOffset, samples), channels, 1 / FULL_SCALE.int32);
+  } else if (aligned && sampleFormat === 'float32') {
+    deinterleave(new Float32Array(bytes.buffer, bytes.byteOffset, samples), channels, 1);
+  } else {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const read = sampleReader(view, sampleFormat);
+    let offset = 0;
+    for (let frame = 0; frame < frames; frame++) {
+      for (let c = 0; c < numChannels; c++) {
+        channels[c][frame] = read(offset);
+        offset += bytesPerSample;
+      }
+    }
+  }
+  return channels;
+}
+
+/** Copies interleaved samples into planar channels in a single pass. */
+function deinterleave(input: ArrayLike<number>, channels: Float32Array[], scale: number) {
+  const numChannels = channels.length;
+  const frames = channels[0].length;
+  if (numChannels === 1) {
+    const mono = channels[0];
+    for (let i = 0; i < frames; i++) mono[i] = input[i] * scale;
+  } else if (numChannels === 2) {
+    const [left, right] = channels;
+    for (let i = 0, j = 0; i < frames; i++, j += 2) {
+      left[i] = input[j] * scale;
+      right[i] = input[j + 1] * scale;
+    }
+  } else {
+    for (let i = 0, j = 0; i < frames; i++) {
+      for (let c = 0; c < numChannels; c++, j++) channels[c][i] = input[j] * scale;
+    }
+  }
+}
+
+function sampleReader(view: DataView, sampleFormat: SampleFormat): (offset: number) => number {
+  switch (sampleFormat) {
+    case 'int16':
+      return (offset) => view.getInt16(offset, true) / FULL_SCALE.int16;
+    case 'int24':
+      return (offset) => (view.getUint8(offset)
+        | (view.getUint8(offset + 1) << 8)
+        | (view.getInt8(offset + 2) << 16)) / FULL_SCALE.int24;
+    case 'int32':
+      return (offset) => view.getInt32(offset, true) / FULL_SCALE.int32;
+    case 'float32':
+      return (offset) => view.getFloat32(offset, true);
+  }
+}
+
+/**
+ * Interleaves planar channels into PCM. Samples are clamped to [-1, 1];
+ * integer formats get triangular (TPDF) dither of one step by default, so
+ * quiet passages don't turn into correlated quantization distortion.
+ */
+export function encodePcm(
+  channels: Float32Array[],
+  sampleFormat: SampleFormat = 'int16',
+  dither = sampleFormat !== 'float32',
+): Uint8Array {
+  const numChannels = channels.length;
+  const frames = channels[0]?.length ?? 0;
+  const bytesPerSample = BYTES_PER_SAMPLE[sampleFormat];
+  const bytes = new Uint8Array(frames * numChannels * bytesPerSample);
+  const view = new DataView(bytes.buffer);
+
+  if (sampleFormat === 'float32') {
+    let offset = 0;
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < numChannels; c++) {
+        view.setFloat32(offset, Math.max(-1, Math.min(1, channels[c][i])), true);
+        offset += 4;
+      }
+    }
+    return bytes;
+  }
+
+  const scale = FULL_SCALE[sampleFormat];
+  const ditherStep = dither ? 1 / scale : 0;
+  // Both sides reach the format's limits: -scale and scale - 1.
+  const toInteger = (sample: number) => {
+    const noisy = sample + (Math.random() - Math.random()) * ditherStep;
+    const clamped = Math.max(-1, Math.min(1, noisy));
+    return Math.round(clamped < 0 ? clamped * scale : clamped * (scale - 1));
+  };
+
+  if (sampleFormat === 'int16' && IS_LITTLE_ENDIAN) {
+    const output = new Int16Array(bytes.buffer);
+    for (let i = 0, j = 0; i < frames; i++) {
+      for (let c = 0; c < numChannels; c++, j++) output[j] = toInteger(channels[c][i]);
+    }
+    return bytes;
+  }
+
+  let offset = 0;
+  for (let i = 0; i < frames; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const value = toInteger(channels[c][i]);
+      if (sampleFormat === 'int16') {
+        view.setInt16(offset, value, true);
+      } else if (sampleFormat === 'int24') {
+        view.setUint8(offset, value & 0xff);
+        view.setUint8(offset + 1, (value >> 8) & 0xff);
+        view.setInt8(offset + 2, value >> 16);
+      } else {
+        view.setInt32(offset, value, true);
+      }
+      offset += bytesPerSample;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Converts a channel between sample rates, e.g. 24 kHz speech to the 48 kHz
+ * music clock. Upsampling interpolates linearly; downsampling averages the
+ * input each output sample covers, which keeps the worst aliasing out.
+ */
+export function resample(input: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return input.slice();
+  const ratio = fromRate / toRate;
+  const length = Math.round(input.length / ratio);
+  const output = new Float32Array(length);
+  const last = input.length - 1;
+
+  if (ratio < 1) {
+    for (let i = 0; i < length; i++) {
+      const position = i * ratio;
+      const index = Math.floor(position);
+      const next = Math.min(index + 1, last);
+      output[i] = input[index] + (input[next] - input[index]) * (position - index);
+    }
+  } else {
+    for (let i = 0; i < length; i++) {
+      const start = Math.floor(i * ratio);
+      const end = Math.min(input.length, Math.max(start + 1, Math.floor((i + 1) * ratio)));
+      let sum = 0;
+      for (let j = start; j < end; j++) sum += input[j];
+      output[i] = sum / (end - start);
+    }
+  }
+  return output;
+}
+
+/** Decodes PCM into planar channels at `sampleRate`, resampling when the format's rate differs. */
+export function decodePcmAtRate(bytes: Uint8Array, format: PcmFormat, sampleRate: number): Float32Array[] {
+  const channels = decodePcm(bytes, format.numChannels, format.sampleFormat);
+  if (format.sampleRate === sampleRate) return channels;
+  return channels.map((channel) => resample(channel, format.sampleRate, sampleRate));
+}
+
+/** Copies planar channels into an AudioBuffer at the context's rate. */
+export function channelsToAudioBuffer(channels: Float32Array[], context: BaseAudioContext): AudioBuffer {
+  const buffer = context.createBuffer(channels.length, Math.max(1, channels[0].length), context.sampleRate);
+  channels.forEach((channel, c) => buffer.copyToChannel(channel, c));
+  return buffer;
+}
+
+/**
+ * Decodes PCM into an AudioBuffer at the context's own rate, so buffers from
+ * every source line up sample for sample on the shared clock.
+ */
+export function pcmToAudioBuffer(bytes: Uint8Array, context: BaseAudioContext, format: PcmFormat): AudioBuffer {
+  return channelsToAudioBuffer(decodePcmAtRate(bytes, format, context.sampleRate), context);
+}
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Worker side of PcmDecoder. The decoded channels are transferred, not copied.
+import { decodeBase64Pcm, type PcmDecodeRequest, type PcmDecodeResponse } from './PcmDecoder';
+
+addEventListener('message', (e: MessageEvent<PcmDecodeRequest>) => {
+  const { id } = e.data;
+  let response: PcmDecodeResponse;
+  let transfer: Transferable[] = [];
+  try {
+    const channels = decodeBase64Pcm(e.data);
+    response = { id, channels };
+    transfer = channels.map((channel) => channel.buffer);
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  postMessage(response, { transfer });
+});
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+// Audio thread side of RingBufferPlayer. Loaded with `audioWorklet.addModule`,
+// so it may only import types.
+import type { RingBufferMessage, RingBufferOptions } from './RingBufferPlayer';
+
+// AudioWorkletGlobalScope, which the DOM lib does not describe.
+declare const currentFrame: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void;
+
+/**
+ * Plays chunks from a ring buffer addressed by absolute context frames.
+ * Each run of back-to-back chunks fades in at its start, and the playhead
+ * fades out whenever it comes within a fade of the end of the written audio,
+ * so an underrun dips instead of clicking and a late chunk picks up again.
+ */
+class RingBufferProcessor extends AudioWorkletProcessor {
+  private ring: Float32Array[];
+  private capacity: number;
+  private fadeFrames: number;
+  /** First frame of the current run. */
+  private start = 0;
+  /** Frame just past the last written one. */
+  private end = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { capacity, fadeFrames, numChannels } = options.processorOptions as RingBufferOptions;
+    this.capacity = capacity;
+    this.fadeFrames = Math.max(1, fadeFrames);
+    this.ring = Array.from({ length: numChannels }, () => new Float32Array(capacity));
+    this.port.onmessage = (e: MessageEvent<RingBufferMessage>) => this.handleMessage(e.data);
+  }
+
+  private handleMessage(message: RingBufferMessage) {
+    switch (message.type) {
+      case 'write':
+        this.write(message.channels, message.startFrame);
+        break;
+      case 'flush':
+        // Cut the run short; the end fade takes it down from here.
+        this.end = Math.max(this.start, Math.min(this.end, currentFrame + this.fadeFrames));
+        break;
+    }
+  }
+
+  private write(channels: Float32Array[], startFrame: number | null) {
+    if (startFrame !== null) {
+      this.start = startFrame;
+      this.end = startFrame;
+    }
+    const frames = channels[0].length;
+    for (let c = 0; c < this.ring.length; c++) {
+      const source = channels[Math.min(c, channels.length - 1)];
+      const ring = this.ring[c];
+      const offset = this.end % this.capacity;
+      const head = Math.min(frames, this.capacity - offset);
+      ring.set(source.subarray(0, head), offset);
+      if (head < frames) ring.set(source.subarray(head), 0);
+    }
+    this.end += frames;
+    if (this.end - Math.max(this.start, currentFrame) > this.capacity) {
+      this.port.postMessage({ type: 'overflow' });
+    }
+    // Anything further back than a lap has been overwritten.
+    this.start = Math.max(this.start, this.end - this.capacity);
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const output = outputs[0];
+    const blockFrames = output[0].length;
+    for (let i = 0; i < blockFrames; i++) {
+      const frame = currentFrame + i;
+      let gain = 0;
+      if (frame >= this.start && frame < this.end) {
+        gain = Math.min(1, (frame - this.start + 1) / this.fadeFrames, (this.end - frame) / this.fadeFrames);
+      }
+      const index = frame % this.capacity;
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = gain === 0 ? 0 : this.ring[Math.min(c, this.ring.length - 1)][index] * gain;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('ring-buffer-player', RingBufferProcessor);
@@ -0,0 +1,23 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+/** Reads a JSON value from localStorage, falling back when missing or invalid. */
+export function loadJson<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (e) {
+    console.error(`Failed to read ${key} from storage:`, e);
+    return fallback;
+  }
+}
+
+/** Writes a JSON value to localStorage. Storage failures are logged, not thrown. */
+export function saveJson(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    console.error(`Failed to write ${key} to storage:`, e);
+  }
+}
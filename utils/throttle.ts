@@ -2,23 +2,147 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+export interface RateLimitOptions {
+  /** Invoke on the first call of a burst. */
+  leading?: boolean;
+  /** Invoke with the latest arguments once the wait has passed. */
+  trailing?: boolean;
+}
+
+/**
+ * A rate-limited function. Every call returns a promise for the result of
+ * the invocation that carried its arguments or newer ones. Calls that are
+ * never invoked, because of `cancel()` or a leading-only limiter, resolve
+ * with `undefined`; errors thrown or rejected by the callee reject every
+ * call that invocation covered.
+ */
+export interface RateLimited<A extends unknown[], R> {
+  (...args: A): Promise<Awaited<R> | undefined>;
+  /** Drops the pending call, resolving its callers with `undefined`. */
+  cancel(): void;
+  /** Invokes the pending call now, if there is one. */
+  flush(): Promise<Awaited<R> | undefined>;
+  /** True while a trailing call is waiting. */
+  readonly pending: boolean;
+}
+
+interface Waiter<R> {
+  resolve: (value: Awaited<R> | undefined) => void;
+  reject: (reason: unknown) => void;
+}
+
 /**
- * Throttles a callback to be called at most once per `delay` milliseconds.
- * Also returns the result of the last "fresh" call...
+ * Shared core of `throttle` and `debounce`. A throttle keeps a window open
+ * for `wait` after every invocation and runs the latest call when it closes;
+ * a debounce restarts its timer on every call and runs once calls stop.
  */
-export function throttle<T extends (...args: Parameters<T>) => ReturnType<T>>(
-  func: T,
-  delay: number,
-): (...args: Parameters<T>) => ReturnType<T> {
-  let lastCall = -Infinity;
-  let lastResult: ReturnType<T>;
-  return (...args: Parameters<T>) => {
-    const now = Date.now();
-    const timeSinceLastCall = now - lastCall;
-    if (timeSinceLastCall >= delay) {
-      lastResult = func(...args);
-      lastCall = now;
+function rateLimit<A extends unknown[], R>(
+  func: (...args: A) => R,
+  wait: number,
+  { leading = false, trailing = true }: RateLimitOptions,
+  restartOnCall: boolean,
+): RateLimited<A, R> {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let pendingArgs: A | null = null;
+  let waiters: Waiter<R>[] = [];
+
+  const invoke = (args: A, covered: Waiter<R>[]) => {
+    let result: Promise<Awaited<R>>;
+    try {
+      result = Promise.resolve(func(...args));
+    } catch (e) {
+      result = Promise.reject(e);
     }
-    return lastResult;
+    result.then(
+      (value) => covered.forEach((w) => w.resolve(value)),
+      (error) => covered.forEach((w) => w.reject(error)),
+    );
   };
+
+  const takePending = (): [A | null, Waiter<R>[]] => {
+    const taken: [A | null, Waiter<R>[]] = [pendingArgs, waiters];
+    pendingArgs = null;
+    waiters = [];
+    return taken;
+  };
+
+  const startTimer = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = setTimeout(handleTimer, wait);
+  };
+
+  function handleTimer() {
+    timer = null;
+    const [args, covered] = takePending();
+    if (args && trailing) {
+      invoke(args, covered);
+      // A throttle keeps pacing after a trailing call; a debounce has settled.
+      if (!restartOnCall) startTimer();
+    } else {
+      covered.forEach((w) => w.resolve(undefined));
+    }
+  }
+
+  const limited = ((...args: A) => new Promise<Awaited<R> | undefined>((resolve, reject) => {
+    const waiter = { resolve, reject };
+    if (timer === null && leading) {
+      invoke(args, [waiter]);
+      startTimer();
+      return;
+    }
+    pendingArgs = args;
+    waiters.push(waiter);
+    if (timer === null || restartOnCall) startTimer();
+  })) as RateLimited<A, R>;
+
+  limited.cancel = () => {
+    if (timer !== null) clearTimeout(timer);
+    timer = null;
+    takePending()[1].forEach((w) => w.resolve(undefined));
+  };
+
+  limited.flush = () => {
+    const [args, covered] = takePending();
+    if (!args) return Promise.resolve(undefined);
+    return new Promise<Awaited<R> | undefined>((resolve, reject) => {
+      invoke(args, [...covered, { resolve, reject }]);
+      // A throttle paces from the flushed call; a debounce has settled and
+      // lets the next call start a fresh quiet period.
+      if (restartOnCall) {
+        if (timer !== null) clearTimeout(timer);
+        timer = null;
+      } else {
+        startTimer();
+      }
+    });
+  };
+
+  Object.defineProperty(limited, 'pending', { get: () => pendingArgs !== null });
+
+  return limited;
+}
+
+/**
+ * Throttles a callback to be called at most once per `wait` milliseconds.
+ * By default the first call runs immediately and the last call in a burst
+ * runs when the window closes, so the final update is never lost.
+ */
+export function throttle<A extends unknown[], R>(
+  func: (...args: A) => R,
+  wait: number,
+  options: RateLimitOptions = {},
+): RateLimited<A, R> {
+  return rateLimit(func, wait, { leading: true, trailing: true, ...options }, false);
+}
+
+/**
+ * Delays a callback until `wait` milliseconds have passed without another
+ * call, then runs it with the latest arguments.
+ */
+export function debounce<A extends unknown[], R>(
+  func: (...args: A) => R,
+  wait: number,
+  options: RateLimitOptions = {},
+): RateLimited<A, R> {
+  return rateLimit(func, wait, { leading: false, trailing: true, ...options }, true);
 }